@@ -0,0 +1,104 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { buildAssetManifest, createEmbeddedFiles } from './assets';
+import { createServer } from './index';
+
+let dir: string;
+
+beforeAll(async () => {
+	dir = await mkdtemp(path.join(tmpdir(), 'bun-server-assets-'));
+	await Bun.write(path.join(dir, 'index.html'), '<h1>Shell</h1>');
+	await Bun.write(path.join(dir, 'assets/app.js'), 'console.log("app")');
+	await Bun.write(path.join(dir, '.env'), 'SECRET=1');
+});
+
+afterAll(async () => {
+	await rm(dir, { recursive: true, force: true });
+});
+
+describe('buildAssetManifest', () => {
+	test('keys files by URL path with their type and a content-hash ETag', async () => {
+		const manifest = await buildAssetManifest(dir);
+		const app = manifest['/assets/app.js']!;
+
+		expect(Object.keys(manifest).sort()).toEqual([
+			'/assets/app.js',
+			'/index.html',
+		]);
+		expect(app.contentType).toBe('application/javascript; charset=utf-8');
+		expect(app.etag).toMatch(/^"[0-9a-z]+"$/);
+		expect(new TextDecoder().decode(app.body as Uint8Array)).toBe(
+			'console.log("app")'
+		);
+	});
+
+	test('can produce a JSON manifest', async () => {
+		const manifest = await buildAssetManifest(dir, { encoding: 'base64' });
+		const roundTripped = JSON.parse(JSON.stringify(manifest));
+
+		expect(roundTripped['/index.html']).toMatchObject({
+			body: Buffer.from('<h1>Shell</h1>').toString('base64'),
+			encoding: 'base64',
+		});
+	});
+});
+
+describe('createEmbeddedFiles', () => {
+	test('decodes bodies and fills in missing modification times', async () => {
+		const files = createEmbeddedFiles(
+			{
+				'robots.txt': { body: 'User-agent: *', contentType: 'text/plain' },
+				'/logo.svg': {
+					body: Buffer.from('<svg/>').toString('base64'),
+					encoding: 'base64',
+					etag: '"logo"',
+					lastModified: 1000,
+				},
+			},
+			5000
+		);
+		const robots = files.get('/robots.txt')!;
+		const logo = files.get('/logo.svg')!;
+
+		expect(await robots.text()).toBe('User-agent: *');
+		expect(robots.type).toStartWith('text/plain');
+		expect(robots.lastModified).toBe(5000);
+		expect(await logo.text()).toBe('<svg/>');
+		expect(logo.etag).toBe('"logo"');
+		expect(logo.lastModified).toBe(1000);
+	});
+});
+
+describe('addEmbeddedAssets', () => {
+	test('serves a manifest like a public directory', async () => {
+		const manifest = await buildAssetManifest(dir);
+		manifest['/.env'] = { body: 'SECRET=1' };
+		const app = createServer({ port: 0 });
+		app.addEmbeddedAssets(manifest, { mountPath: '/ui', spaMode: true });
+		const server = app.start();
+
+		try {
+			const get = (pathname: string, headers: Record<string, string> = {}) =>
+				fetch(new URL(pathname, server.url), { headers });
+			const script = await get('/ui/assets/app.js');
+			const cached = await get('/ui/assets/app.js', {
+				'If-None-Match': script.headers.get('ETag')!,
+			});
+			const deepLink = await get('/ui/settings');
+			const secret = await get('/ui/.env');
+
+			expect(await script.text()).toBe('console.log("app")');
+			expect(script.headers.get('ETag')).toBe(
+				manifest['/assets/app.js']!.etag!
+			);
+			expect(script.headers.get('X-Content-Type-Options')).toBe('nosniff');
+			expect(cached.status).toBe(304);
+			expect(await deepLink.text()).toBe('<h1>Shell</h1>');
+			expect(secret.status).toBe(404);
+		} finally {
+			server.stop(true);
+		}
+	});
+});
@@ -0,0 +1,94 @@
+import path from 'path';
+import type { AssetManifest, AssetManifestOptions } from './server-types';
+import type { ServableFile } from './file-response';
+import {
+	DEFAULT_BLOCKED_PATTERNS,
+	getContentType,
+	isFileBlocked,
+} from './static-files';
+
+/** An embedded asset, named by its URL path so it can stand in for a file on disk. */
+export type EmbeddedFile = File & ServableFile;
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function toBlobPart(
+	body: AssetManifest[string]['body'],
+	encoding: 'utf8' | 'base64' = 'utf8'
+): BlobPart {
+	if (typeof body === 'string' && encoding === 'base64') {
+		return Buffer.from(body, 'base64');
+	}
+	return body as BlobPart;
+}
+
+// ─── Public helpers ───────────────────────────────────────────────────────────
+
+/**
+ * Reads every servable file under `dir` into a manifest keyed by URL path
+ * (`/assets/app.js`), with its content type, a strong content-hash ETag and its
+ * modification time. Files matching the block patterns are left out.
+ *
+ * With `encoding: 'base64'` the manifest is plain JSON, so it can be written to
+ * a generated module or returned from a Bun macro.
+ */
+export async function buildAssetManifest(
+	dir: string,
+	{
+		encoding = 'binary',
+		mimeTypes,
+		blockPatterns = DEFAULT_BLOCKED_PATTERNS,
+		allowAllFiles = false,
+	}: AssetManifestOptions = {}
+): Promise<AssetManifest> {
+	const root = path.resolve(process.cwd(), dir);
+	const manifest: AssetManifest = {};
+
+	const glob = new Bun.Glob('**/*');
+	for await (const relativePath of glob.scan({ cwd: root, dot: true })) {
+		const urlPath = '/' + relativePath.split(path.sep).join('/');
+		if (!allowAllFiles && isFileBlocked(urlPath, blockPatterns)) {
+			continue;
+		}
+
+		const file = Bun.file(path.join(root, relativePath));
+		const bytes = new Uint8Array(await file.arrayBuffer());
+		manifest[urlPath] = {
+			body:
+				encoding === 'base64' ? Buffer.from(bytes).toString('base64') : bytes,
+			...(encoding === 'base64' && { encoding: 'base64' as const }),
+			contentType: getContentType(urlPath, mimeTypes),
+			etag: `"${Bun.hash(bytes).toString(36)}"`,
+			lastModified: file.lastModified,
+		};
+	}
+
+	return manifest;
+}
+
+/**
+ * Turns a manifest into files keyed by URL path. Assets without a modification
+ * time get `lastModified`, normally the time they were registered.
+ */
+export function createEmbeddedFiles(
+	manifest: AssetManifest,
+	lastModified: number
+): Map<string, EmbeddedFile> {
+	const files = new Map<string, EmbeddedFile>();
+	for (const [urlPath, asset] of Object.entries(manifest)) {
+		const key = urlPath.startsWith('/') ? urlPath : `/${urlPath}`;
+		const file: EmbeddedFile = new File(
+			[toBlobPart(asset.body, asset.encoding)],
+			key,
+			{
+				type: asset.contentType ?? '',
+				lastModified: asset.lastModified ?? lastModified,
+			}
+		);
+		if (asset.etag) {
+			file.etag = asset.etag;
+		}
+		files.set(key, file);
+	}
+	return files;
+}
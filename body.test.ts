@@ -0,0 +1,126 @@
+import { describe, expect, test } from 'bun:test';
+import { parseRequestBody, resolveBodyLimit } from './body';
+import { createTestServer } from './bun-test-server';
+
+function chunked(...chunks: string[]) {
+	return new ReadableStream<Uint8Array>({
+		start(controller) {
+			for (const chunk of chunks) {
+				controller.enqueue(new TextEncoder().encode(chunk));
+			}
+			controller.close();
+		},
+	});
+}
+
+describe('resolveBodyLimit', () => {
+	test('prefers route limits, then multipart limits, then server limits', () => {
+		const server = { maxBodySize: 1000, maxMultipartBodySize: 5000 };
+
+		expect(resolveBodyLimit('application/json', {}, server)).toBe(1000);
+		expect(
+			resolveBodyLimit('multipart/form-data; boundary=x', {}, server)
+		).toBe(5000);
+		expect(
+			resolveBodyLimit(
+				'multipart/form-data; boundary=x',
+				{ maxBodySize: 200 },
+				server
+			)
+		).toBe(200);
+		expect(resolveBodyLimit('text/plain', { maxBodySize: 10 }, server)).toBe(
+			10
+		);
+		expect(resolveBodyLimit('text/plain')).toBe(Infinity);
+	});
+});
+
+describe('parseRequestBody', () => {
+	test('refuses an oversized Content-Length before reading the body', async () => {
+		const request = new Request('http://localhost/', {
+			method: 'POST',
+			headers: { 'Content-Length': '2048', 'Content-Type': 'text/plain' },
+			body: 'short',
+		});
+
+		const error = await parseRequestBody(request, 1024).catch((e) => e);
+
+		expect(error.status).toBe(413);
+		expect(request.bodyUsed).toBe(false);
+	});
+
+	test('counts chunked bodies as they stream', async () => {
+		const request = new Request('http://localhost/', {
+			method: 'POST',
+			headers: { 'Content-Type': 'text/plain' },
+			body: chunked('a'.repeat(600), 'b'.repeat(600)),
+		});
+
+		const error = await parseRequestBody(request, 1024).catch((e) => e);
+
+		expect(error.status).toBe(413);
+		expect(error.params).toEqual({ maxBodySize: '1024' });
+	});
+
+	test('parses JSON, form and text bodies within the limit', async () => {
+		const post = (body: string, contentType: string) =>
+			parseRequestBody(
+				new Request('http://localhost/', {
+					method: 'POST',
+					headers: { 'Content-Type': contentType },
+					body: chunked(body),
+				}),
+				1024
+			);
+
+		expect((await post('{"a":1}', 'application/json')).body).toEqual({ a: 1 });
+		expect(
+			(await post('a=1&b=2', 'application/x-www-form-urlencoded')).body
+		).toEqual({ a: '1', b: '2' });
+		expect((await post('hello', 'text/plain')).body).toEqual({
+			text: 'hello',
+		});
+	});
+});
+
+describe('body limits', () => {
+	test('send oversized bodies through onError as 413', async () => {
+		const app = createTestServer({ maxBodySize: 16 });
+		const statuses: unknown[] = [];
+		app.onError(({ status }) => {
+			statuses.push(status);
+			return new Response('Too big', { status: status ?? 500 });
+		});
+		app.post('/notes', (req, res) => res.send(req.getBody()));
+		app.post('/essays', (req, res) => res.send(req.getBody()), {
+			maxBodySize: 1024,
+		});
+
+		const note = await app.call('/notes', {
+			method: 'POST',
+			body: { text: 'far too long for a note' },
+		});
+		const essay = await app.call('/essays', {
+			method: 'POST',
+			body: { text: 'far too long for a note' },
+		});
+
+		expect(note.status).toBe(413);
+		expect(statuses).toEqual([413]);
+		expect(essay.body).toEqual({ text: 'far too long for a note' });
+	});
+
+	test('answer malformed JSON with 400', async () => {
+		const app = createTestServer();
+		app.post('/notes', (req, res) => res.send(req.getBody()));
+
+		const response = await app.call('/notes', {
+			method: 'POST',
+			body: '{"text":',
+			headers: { 'Content-Type': 'application/json' },
+		});
+
+		expect(response.status).toBe(400);
+		expect(response.body.detail).toBe('Bad Request: Malformed JSON');
+	});
+});
@@ -0,0 +1,159 @@
+import type {
+	BodyLimits,
+	MultipartOptions,
+	UploadedFile,
+} from './server-types';
+import { BunServerError } from './errors';
+import { parseMultipart } from './multipart';
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function payloadTooLarge(maxSize: number): BunServerError {
+	return new BunServerError(
+		`Payload Too Large: body exceeds ${maxSize} bytes`,
+		413,
+		{
+			maxBodySize: String(maxSize),
+		}
+	);
+}
+
+/**
+ * Reads the whole body, failing with 413 as soon as it grows past `maxSize`.
+ * Content-Length is checked up front, but chunked uploads don't send one, so the
+ * stream itself is counted too.
+ */
+async function readBody(
+	request: Request,
+	maxSize: number
+): Promise<Uint8Array<ArrayBuffer>> {
+	const contentLength = Number(request.headers.get('Content-Length'));
+	if (contentLength > maxSize) {
+		throw payloadTooLarge(maxSize);
+	}
+	if (!request.body) {
+		return new Uint8Array(0);
+	}
+
+	const chunks: Uint8Array[] = [];
+	let received = 0;
+	const reader = request.body.getReader();
+
+	while (true) {
+		const { done, value } = await reader.read();
+		if (done) break;
+
+		received += value.byteLength;
+		if (received > maxSize) {
+			await reader.cancel();
+			throw payloadTooLarge(maxSize);
+		}
+		chunks.push(value);
+	}
+
+	const body = new Uint8Array(received);
+	let offset = 0;
+	for (const chunk of chunks) {
+		body.set(chunk, offset);
+		offset += chunk.byteLength;
+	}
+	return body;
+}
+
+/** Reads the whole body and parses it as JSON, form data, binary or text. */
+async function parseBufferedBody(
+	request: Request,
+	contentType: string,
+	maxSize: number
+): Promise<Record<string, any>> {
+	const body = await readBody(request, maxSize);
+
+	if (body.byteLength === 0) {
+		// Empty body is allowed
+		return {};
+	}
+
+	if (contentType.includes('application/json')) {
+		let maybeJSON: unknown;
+		try {
+			maybeJSON = JSON.parse(new TextDecoder().decode(body));
+		} catch {
+			throw new BunServerError('Bad Request: Malformed JSON', 400);
+		}
+		if (!maybeJSON || typeof maybeJSON !== 'object') {
+			throw new BunServerError('Bad Request: Invalid JSON format', 400);
+		}
+		return maybeJSON;
+	}
+
+	if (contentType.includes('application/x-www-form-urlencoded')) {
+		const formData = new URLSearchParams(new TextDecoder().decode(body));
+		return Object.fromEntries(formData.entries());
+	}
+
+	if (
+		contentType.includes('application/octet-stream') ||
+		contentType.includes('image/') ||
+		contentType.includes('video/') ||
+		contentType.includes('audio/')
+	) {
+		return {
+			binary: body.buffer,
+			contentType,
+		};
+	}
+
+	// Default to raw text
+	return { text: new TextDecoder().decode(body) };
+}
+
+// ─── Public helpers ───────────────────────────────────────────────────────────
+
+/**
+ * Picks the size limit for a request body. Route limits win over server limits,
+ * and multipart bodies use the multipart limit where one is set.
+ */
+export function resolveBodyLimit(
+	contentType: string,
+	route: BodyLimits = {},
+	server: BodyLimits = {}
+): number {
+	const limit = contentType.includes('multipart/form-data')
+		? (route.maxMultipartBodySize ??
+			route.maxBodySize ??
+			server.maxMultipartBodySize ??
+			server.maxBodySize)
+		: (route.maxBodySize ?? server.maxBodySize);
+	return limit ?? Infinity;
+}
+
+/**
+ * Parses the request body based on its Content-Type, enforcing `maxSize`.
+ * Multipart bodies are streamed: their files are returned separately and are
+ * also put in the body as `Bun.file()`s of the spooled copies, which are only
+ * readable after the handler returns if the file was kept.
+ * @throws BunServerError 413 for oversized bodies, 400 for malformed JSON
+ */
+export async function parseRequestBody(
+	request: Request,
+	maxSize: number,
+	multipart: MultipartOptions = {}
+): Promise<{ body: Record<string, any>; files: UploadedFile[] }> {
+	const contentType = request.headers.get('Content-Type') || '';
+
+	if (contentType.includes('multipart/form-data')) {
+		const { fields, files } = await parseMultipart(request, maxSize, multipart);
+		const body: Record<string, any> = { ...fields };
+		for (const file of files) {
+			if (file.path && !multipart.onFile) {
+				body[file.field] = Bun.file(file.path, { type: file.type });
+			}
+		}
+		return { body, files };
+	}
+
+	return {
+		body: await parseBufferedBody(request, contentType, maxSize),
+		files: [],
+	};
+}
@@ -3,11 +3,56 @@ import type {
 	HandlerFunc,
 	ErrorHandler,
 	RequestHandler,
-	ResponseHandler,
 	ValidMethods,
-	CookieOptions,
+	BunRouter,
+	PathParams,
+	PreRequestHandler,
+	RouterOptions,
+	RouteMeta,
+	Middleware,
+	CorsOptions,
+	SessionOptions,
+	MultipartOptions,
+	OpenAPIOptions,
+	Logger,
+	RateLimitOptions,
 } from './server-types';
-import { BunServerError } from './index';
+import { BunServerError, NotFoundError, createProblemResponse } from './errors';
+import {
+	createRouteTree,
+	createRouter,
+	findErrorHandler,
+	getRouterScope,
+	mergeScopeHeaders,
+	runMiddleware,
+	runPreRequestHandlers,
+	subscribeToRoutes,
+	type RouteDefinition,
+	type RouteEntry,
+	type RouteScope,
+} from './router';
+import { createOpenAPIDocument } from './openapi';
+import { parseRequestBody, resolveBodyLimit } from './body';
+import { removeUploadedFiles } from './multipart';
+import { createResponseHandler } from './response';
+import { createCookieSigner } from './cookies';
+import { createSessionManager, type SessionHandle } from './session';
+import { createJsonLogger, logAccess, resolveRequestId } from './logging';
+import {
+	RATE_LIMIT_HEADERS,
+	createRateLimiter,
+	enforceRateLimit,
+	pickRateLimitResult,
+	setRateLimitHeaders,
+	type RateLimiter,
+	type RateLimitResult,
+} from './ratelimit';
+import {
+	applyCorsHeaders,
+	createPreflightResponse,
+	findCorsOptions,
+	isPreflightRequest,
+} from './cors';
 
 export type TestRequestOptions = {
 	method?: ValidMethods;
@@ -15,15 +60,42 @@ export type TestRequestOptions = {
 	query?: Record<string, string>;
 	headers?: Record<string, string>;
 	cookies?: Record<string, string>;
+	/** Cookies to sign with the server's `cookieSecrets` before sending */
+	signedCookies?: Record<string, string>;
+	/** Cookies to encrypt with the server's `cookieSecrets` before sending */
+	encryptedCookies?: Record<string, string>;
+	/**
+	 * Client address the request comes from, as `req.ip`.
+	 * @default '127.0.0.1'
+	 */
+	ip?: string;
 };
 
 export type TestResponse = {
 	status: number;
 	headers: Record<string, string>;
 	cookies: Record<string, string>;
+	/** Signed and encrypted cookies from `cookies` that verified, with their original values */
+	signedCookies: Record<string, string>;
 	body: any;
 };
 
+/** Per-request state shared between `handleRequest` and `call`. */
+type RequestContext<StateType> = {
+	/** Scopes of the matched route; decides which error handler and CORS policy apply. */
+	scopes: RouteScope<StateType>[];
+	/** The request's session, saved once the response is ready. */
+	session?: SessionHandle;
+	requestId: string;
+	ip: string | null;
+	/** Key of the matched route, for the access log. */
+	route?: string;
+	/** The error behind an error response, for the access log. */
+	error?: unknown;
+	/** The tightest rate limit the request was counted against, for the response headers. */
+	rateLimit?: RateLimitResult;
+};
+
 function validateMethod(method: string): method is ValidMethods {
 	return [
 		'GET',
@@ -44,104 +116,86 @@ export function createTestServer<ProvidedState extends object>({
 	},
 	debug = false,
 	globalHeaders = {},
+	cors,
+	openapi,
+	maxBodySize,
+	maxMultipartBodySize,
+	multipart,
+	etag = true,
+	cookieSecrets,
+	session,
+	includeErrorStack = process.env.NODE_ENV === 'development',
+	accessLog = false,
+	requestIdHeader = 'X-Request-Id',
+	rateLimit,
 }: {
 	state?: () => ProvidedState;
 	globalHeaders?: Record<string, any>;
+	cors?: CorsOptions;
+	openapi?: OpenAPIOptions;
+	maxBodySize?: number;
+	maxMultipartBodySize?: number;
+	multipart?: MultipartOptions;
+	etag?: boolean;
+	cookieSecrets?: string[];
+	session?: SessionOptions;
+	includeErrorStack?: boolean;
+	accessLog?: boolean | Logger;
+	requestIdHeader?: string | false;
+	rateLimit?: RateLimitOptions;
 	debug?: boolean;
 } = {}): BunServer<ProvidedState> & {
 	call: (path: string, options?: TestRequestOptions) => Promise<TestResponse>;
 } {
-	const registeredMethods: Record<
-		ValidMethods,
-		Record<string, HandlerFunc<ProvidedState>>
-	> = {
-		GET: {},
-		POST: {},
-		PUT: {},
-		PATCH: {},
-		DELETE: {},
-		OPTIONS: {},
-		HEAD: {},
-		CONNECT: {},
-		TRACE: {},
-	};
-
-	let _errorHandler: ErrorHandler | null = null;
-	const _preRequestHandlers: Array<
-		(
-			req: RequestHandler<ProvidedState>
-		) => boolean | Response | Promise<boolean | Response>
-	> = [];
-
-	function logLine(...args: any[]) {
-		if (debug) {
-			console.log('[TEST-DEBUG]', ...args);
-		}
-	}
-
-	function getMatchingPathKey(method: string, path: string): string | null {
-		if (!validateMethod(method)) {
-			logLine('invalid method', method);
-			return null;
+	const routes = createRouteTree<RouteEntry<ProvidedState>>();
+	const rootRouter = createRouter<ProvidedState>({ globalHeaders, cors });
+	const rootScope = getRouterScope(rootRouter);
+	const routeDefinitions: RouteDefinition<ProvidedState>[] = [];
+	const routeLimiters = new Map<RouteEntry<ProvidedState>, RateLimiter>();
+	subscribeToRoutes(rootRouter, (definition) => {
+		const { method, path, handler, scopes, meta } = definition;
+		const entry = { handler, scopes, meta };
+		routes.add(method, path, entry);
+		if (meta?.rateLimit) {
+			routeLimiters.set(entry, createRateLimiter(meta.rateLimit, `${method} ${path}`));
 		}
-
-		// options validates on it's own
-		if (method === 'OPTIONS') {
-			return path;
-		}
-
-		// Exact match
-		if (registeredMethods[method][path]) return path;
-		logLine('no exact matched path found', path);
-
-		// Parameterized match (e.g., /foo/:id)
-		const keys = Object.keys(registeredMethods[method]).filter((k) =>
-			k.split('/').some((el) => el.startsWith(':'))
+		routeDefinitions.push(definition);
+	});
+
+	const cookieSigner = cookieSecrets ? createCookieSigner(cookieSecrets) : undefined;
+	const accessLogger = accessLog === true ? createJsonLogger() : accessLog || undefined;
+	const sessions = session ? createSessionManager(session, cookieSigner) : undefined;
+	const globalLimiter = rateLimit ? createRateLimiter(rateLimit, 'global') : undefined;
+
+	function getOpenAPIDocument() {
+		return createOpenAPIDocument(
+			routeDefinitions,
+			openapi ?? { info: { title: 'API', version: '1.0.0' } }
 		);
-
-		const parts = path.split('/').filter((p) => p);
-		logLine('key search', keys, parts);
-
-		for (const key of keys) {
-			const keyParts = key.split('/').filter((p) => p);
-			if (keyParts.length !== parts.length) continue;
-
-			if (keyParts.every((kp, idx) => kp.startsWith(':') || kp === parts[idx])) {
-				return key;
-			}
-		}
-
-		// Wildcard support (e.g., /foo/* should match /foo/bar/baz)
-		const wildcardKeys = Object.keys(registeredMethods[method]).filter((k) =>
-			k.endsWith('/*')
-		);
-		for (const wildcardKey of wildcardKeys) {
-			if (path.startsWith(wildcardKey.replace('/*', ''))) {
-				return wildcardKey;
-			}
-		}
-
-		return null;
 	}
 
-	function getParamsFromPath(
-		pathKey: string,
-		path: string
-	): Record<string, string> {
-		const pathParts = path.split('/').filter(Boolean);
-		const keyParts = pathKey.split('/').filter(Boolean);
+	if (openapi?.path) {
+		rootRouter.get(openapi.path, (req, res) => res.send(getOpenAPIDocument()), {
+			hidden: true,
+		});
+	}
 
-		const params: Record<string, string> = {};
+	/** Counts the request against `limiter`, throwing a 429 when it's over the limit. */
+	async function checkRateLimit(
+		limiter: RateLimiter,
+		options: RateLimitOptions,
+		request: Request,
+		context: RequestContext<ProvidedState>
+	) {
+		await enforceRateLimit(limiter, options, request, context.ip, (result) => {
+			context.rateLimit = pickRateLimitResult(context.rateLimit, result);
+		});
+	}
 
-		for (let i = 0; i < keyParts.length; i++) {
-			const keyPart = keyParts[i]!;
-			if (keyPart.startsWith(':')) {
-				const paramName = keyPart.slice(1);
-				params[paramName] = pathParts[i] ?? '';
-			}
+	function logLine(...args: any[]) {
+		if (debug) {
+			console.log('[TEST-DEBUG]', ...args);
 		}
-
-		return params;
 	}
 
 	function parseCookieHeader(cookieHeader: string): Record<string, string> {
@@ -171,110 +225,196 @@ export function createTestServer<ProvidedState extends object>({
 		};
 	}
 
+	/** Adds `signedCookies` and `encryptedCookies`, protected with `cookieSecrets`, to the plain cookies. */
+	async function protectCookies({
+		cookies = {},
+		signedCookies = {},
+		encryptedCookies = {},
+	}: TestRequestOptions): Promise<Record<string, string>> {
+		const all = { ...cookies };
+		const protectedCookies = [
+			...Object.entries(signedCookies).map(([name, value]) => [name, value, 'sign'] as const),
+			...Object.entries(encryptedCookies).map(([name, value]) => [name, value, 'encrypt'] as const),
+		];
+		if (protectedCookies.length === 0) {
+			return all;
+		}
+		if (!cookieSigner) {
+			throw new Error('signedCookies and encryptedCookies require the cookieSecrets option');
+		}
+
+		for (const [name, value, method] of protectedCookies) {
+			all[name] = await cookieSigner[method](name, value);
+		}
+		return all;
+	}
+
+	/** Builds the Request that `call` routes, as a client would send it. */
+	function buildRequest(path: string, options: TestRequestOptions): Request {
+		const { method = 'GET', body, query = {}, headers = {}, cookies = {} } = options;
+
+		// Build URL with query params
+		const url = new URL(`http://test-server${path}`);
+		Object.entries(query).forEach(([key, value]) => {
+			url.searchParams.set(key, value);
+		});
+
+		// Build headers
+		const requestHeaders = new Headers(headers);
+
+		// Add cookies to headers
+		if (Object.keys(cookies).length > 0) {
+			const cookieHeader = Object.entries(cookies)
+				.map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+				.join('; ');
+			requestHeaders.set('Cookie', cookieHeader);
+		}
+
+		// Handle body
+		let bodyContent: BodyInit | undefined;
+		if (body !== undefined) {
+			if (typeof body === 'object' && !requestHeaders.has('Content-Type')) {
+				requestHeaders.set('Content-Type', 'application/json');
+				bodyContent = JSON.stringify(body);
+			} else if (typeof body === 'string') {
+				bodyContent = body;
+			} else {
+				bodyContent = body;
+			}
+		}
+
+		// Create mock Request
+		const request = new Request(url.toString(), {
+			method,
+			headers: requestHeaders,
+			body: bodyContent,
+		});
+
+		return request;
+	}
+
 	async function call(
 		path: string,
 		options: TestRequestOptions = {}
 	): Promise<TestResponse> {
-		const {
-			method = 'GET',
-			body,
-			query = {},
-			headers = {},
-			cookies = {},
-		} = options;
-
-		try {
-			// Build URL with query params
-			const url = new URL(`http://test-server${path}`);
-			Object.entries(query).forEach(([key, value]) => {
-				url.searchParams.set(key, value);
-			});
-
-			// Build headers
-			const requestHeaders = new Headers(headers);
+		const request = buildRequest(path, { ...options, cookies: await protectCookies(options) });
+		const startedAt = performance.now();
+		const context: RequestContext<ProvidedState> = {
+			scopes: [rootScope],
+			requestId: resolveRequestId(
+				requestIdHeader ? request.headers.get(requestIdHeader) : null
+			),
+			ip: options.ip ?? '127.0.0.1',
+		};
+		let response = await handleRequest(request, path, options, context);
 
-			// Add cookies to headers
-			if (Object.keys(cookies).length > 0) {
-				const cookieHeader = Object.entries(cookies)
-					.map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
-					.join('; ');
-				requestHeaders.set('Cookie', cookieHeader);
+		// Saving the session and applying CORS can fail too, and are answered like route errors
+		if (context.session) {
+			try {
+				await context.session.commit(response);
+			} catch (e) {
+				response = await handleError(request, path, options, context, e);
 			}
+		}
 
-			// Handle body
-			let bodyContent: BodyInit | undefined;
-			if (body !== undefined) {
-				if (typeof body === 'object' && !requestHeaders.has('Content-Type')) {
-					requestHeaders.set('Content-Type', 'application/json');
-					bodyContent = JSON.stringify(body);
-				} else if (typeof body === 'string') {
-					bodyContent = body;
-				} else {
-					bodyContent = body;
-				}
+		// CORS applies to everything that produced a response, including errors
+		const corsOptions = findCorsOptions(context.scopes);
+		if (corsOptions) {
+			try {
+				await applyCorsHeaders(
+					response,
+					request,
+					corsOptions,
+					context.rateLimit ? RATE_LIMIT_HEADERS : []
+				);
+			} catch (e) {
+				response = await handleError(request, path, options, context, e);
 			}
+		}
+		if (context.rateLimit) {
+			setRateLimitHeaders(response.headers, context.rateLimit);
+		}
+		if (requestIdHeader) {
+			response.headers.set(requestIdHeader, context.requestId);
+		}
+		if (accessLogger) {
+			const { error } = context;
+			response = logAccess(
+				accessLogger,
+				request,
+				response,
+				{
+					event: 'request',
+					requestId: context.requestId,
+					method: request.method,
+					route: context.route ?? null,
+					path: new URL(request.url).pathname,
+					ip: context.ip,
+					userAgent: request.headers.get('User-Agent'),
+					...(response.status >= 500 &&
+						error !== undefined && {
+							error: error instanceof Error ? error.message : String(error),
+						}),
+				},
+				startedAt
+			)!;
+		}
+		return convertResponseToTestResponse(response, request.method);
+	}
 
-			// Create mock Request
-			const request = new Request(url.toString(), {
-				method,
-				headers: requestHeaders,
-				body: bodyContent,
-			});
+	async function handleRequest(
+		request: Request,
+		path: string,
+		options: TestRequestOptions,
+		context: RequestContext<ProvidedState>
+	): Promise<Response> {
+		const { method = 'GET', query = {} } = options;
 
+		try {
 			logLine('Test Request:', method, path, query);
 
 			if (!validateMethod(method)) {
 				throw new BunServerError('Method not allowed', 405);
 			}
 
-			const pathKey = getMatchingPathKey(method, path);
-			if (!pathKey) {
-				throw new BunServerError('Not found', 404);
-			}
-			logLine('pathKey matched', pathKey);
-
-			// Dynamically handle OPTIONS requests
-			if (method === 'OPTIONS' && !registeredMethods.OPTIONS[pathKey]) {
-				const allowedMethods: string[] = [];
-
-				for (const [m, routeMap] of Object.entries(registeredMethods)) {
-					if (routeMap[pathKey]) {
-						allowedMethods.push(m);
-					}
-				}
-
-				if (allowedMethods.length === 0) {
-					throw new BunServerError('Not found', 404);
-				}
-
-				const response = new Response(null, {
-					status: 204,
-				});
-
-				response.headers.set('Allow', allowedMethods.join(', '));
-				Object.keys(globalHeaders).forEach((header) => {
-					response.headers.set(header, globalHeaders[header]);
-				});
-
-				return convertResponseToTestResponse(response);
+			if (globalLimiter) {
+				await checkRateLimit(globalLimiter, rateLimit!, request, context);
 			}
 
 			// Parse cookies from request
 			const cookieHeader = request.headers.get('cookie') || '';
 			const parsedCookies = parseCookieHeader(cookieHeader);
 
+			const signedCookies = cookieSigner ? await cookieSigner.verify(parsedCookies) : {};
+			if (sessions) {
+				context.session = sessions(parsedCookies, signedCookies);
+			}
+
 			// Initialize request handler
 			const req: RequestHandler<ProvidedState> = {
 				request,
 				__raw: {
 					query,
 					body: {},
-					path: getParamsFromPath(pathKey, path),
+					path: {},
+					files: [],
 				},
 				headers: request.headers,
 				pathname: path,
+				requestId: context.requestId,
+				ip: context.ip,
 				state: state(),
 				cookies: parsedCookies,
+				signedCookies,
+				get session() {
+					if (!context.session) {
+						throw new Error('req.session requires the session option');
+					}
+					return context.session.session;
+				},
+				get params() {
+					return req.__raw.path;
+				},
 				getBody: <T>(validator?: (body: Record<string, any>) => T): T => {
 					if (validator) {
 						return validator(req.__raw.body);
@@ -295,213 +435,141 @@ export function createTestServer<ProvidedState extends object>({
 					}
 					return req.__raw.path as T;
 				},
+				getFiles: (field?: string) =>
+					field === undefined
+						? req.__raw.files
+						: req.__raw.files.filter((file) => file.field === field),
 			};
 
-			// Run pre-request handlers
-			if (_preRequestHandlers.length > 0) {
-				for (const guard of _preRequestHandlers) {
-					const result = await guard(req);
+			// Dynamically handle OPTIONS requests
+			if (method === 'OPTIONS' && !routes.match('OPTIONS', path)) {
+				const allowedMethods = routes.allowedMethods(path);
 
-					if (result instanceof Response) {
-						return convertResponseToTestResponse(result);
-					}
+				if (allowedMethods.length === 0) {
+					throw new NotFoundError();
+				}
 
-					if (result === false) {
-						throw new BunServerError(
-							`Bad Request: onRequest failed to validate "${request.url}"`,
-							400
-						);
-					}
+				// A CORS preflight follows the policy of the route it asks about
+				const preflightMethod = request.headers.get('Access-Control-Request-Method');
+				if (preflightMethod && validateMethod(preflightMethod)) {
+					const target = routes.match(preflightMethod, path);
+					if (target) context.scopes = target.value.scopes;
 				}
+				const corsOptions = findCorsOptions(context.scopes);
+
+				return runMiddleware(
+					[rootScope],
+					req,
+					createResponseHandler({ request, globalHeaders, etag, cookieSigner }),
+					() => {
+						const response =
+							corsOptions && isPreflightRequest(request)
+								? createPreflightResponse(request, corsOptions, allowedMethods)
+								: new Response(null, { status: 204 });
+
+						response.headers.set('Allow', allowedMethods.join(', '));
+						Object.keys(globalHeaders).forEach((header) => {
+							response.headers.set(header, globalHeaders[header]);
+						});
+
+						return response;
+					}
+				);
+			}
+
+			const route = routes.match(method, path);
+			if (!route) {
+				throw new NotFoundError();
+			}
+			const scopes = route.value.scopes;
+			context.scopes = scopes;
+			context.route = route.pathKey;
+			req.__raw.path = route.params;
+			logLine('pathKey matched', route.pathKey);
+
+			const routeLimiter = routeLimiters.get(route.value);
+			if (routeLimiter) {
+				await checkRateLimit(routeLimiter, route.value.meta!.rateLimit!, request, context);
 			}
 
-			if (registeredMethods[method][pathKey]) {
+			const res = createResponseHandler({
+				request,
+				globalHeaders: mergeScopeHeaders(scopes),
+				etag,
+				cookieSigner,
+			});
+
+			return await runMiddleware(scopes, req, res, async () => {
+				// Run pre-request handlers
+				const guardResult = await runPreRequestHandlers(scopes, req);
+				if (guardResult instanceof Response) {
+					return guardResult;
+				}
+				if (guardResult === false) {
+					throw new BunServerError(
+						`Bad Request: onRequest failed to validate "${request.url}"`,
+						400
+					);
+				}
+
 				// Parse request body for methods that typically include one
 				if (['POST', 'PUT', 'PATCH'].includes(method)) {
-					const contentType = request.headers.get('Content-Type') || '';
-					const contentLength = request.headers.get('Content-Length');
-
-					let parsedBody = {};
-
-					if (contentLength === '0') {
-						parsedBody = {};
-					} else if (contentType.includes('application/json')) {
-						try {
-							const maybeJSON = await request.json();
-							if (maybeJSON && typeof maybeJSON === 'object') {
-								parsedBody = maybeJSON;
-							} else {
-								throw new BunServerError('Bad Request: Invalid JSON format', 400);
-							}
-						} catch (e) {
-							throw new BunServerError('Bad Request: Malformed JSON', 400);
-						}
-					} else if (contentType.includes('application/x-www-form-urlencoded')) {
-						const formData = new URLSearchParams(await request.text());
-						parsedBody = Object.fromEntries(formData.entries());
-					} else if (contentType.includes('multipart/form-data')) {
-						const formData = await request.formData();
-						const formDataObj: Record<string, any> = {};
-						for (const [key, value] of formData.entries()) {
-							formDataObj[key] = value;
-						}
-						parsedBody = formDataObj;
-					} else if (
-						contentType.includes('application/octet-stream') ||
-						contentType.includes('image/') ||
-						contentType.includes('video/') ||
-						contentType.includes('audio/')
-					) {
-						parsedBody = {
-							binary: await request.arrayBuffer(),
-							contentType,
-						};
-					} else if (contentType) {
-						parsedBody = { text: await request.text() };
-					}
+					const maxSize = resolveBodyLimit(
+						request.headers.get('Content-Type') || '',
+						route.value.meta,
+						{ maxBodySize, maxMultipartBodySize }
+					);
+					const parsed = await parseRequestBody(request, maxSize, {
+						...multipart,
+						...route.value.meta?.multipart,
+					});
+					req.__raw.body = parsed.body;
+					req.__raw.files = parsed.files;
+				}
 
-					req.__raw.body = parsedBody;
+				try {
+					return await route.value.handler(req, res);
+				} finally {
+					await removeUploadedFiles(req.__raw.files);
 				}
+			});
+		} catch (e) {
+			return handleError(request, path, options, context, e);
+		}
+	}
 
-				const res = (): ResponseHandler => {
-					const headers: Record<string, string> = {};
-					let sent = false;
-					let status = 200;
-					const cookieHeaders: string[] = [];
-
-					return {
-						setStatus: (statusCode: number) => {
-							status = statusCode;
-						},
-						setCookie: (
-							name: string,
-							value: string,
-							options?: CookieOptions
-						) => {
-							let cookie = `${name}=${encodeURIComponent(value)}`;
-
-							if (options) {
-								if (options.path) cookie += `; Path=${options.path}`;
-								if (options.maxAge) cookie += `; Max-Age=${options.maxAge}`;
-								if (options.expires)
-									cookie += `; Expires=${options.expires.toUTCString()}`;
-								if (options.httpOnly) cookie += `; HttpOnly`;
-								if (options.secure) cookie += `; Secure`;
-								if (options.sameSite)
-									cookie += `; SameSite=${options.sameSite}`;
-								if (options.domain) cookie += `; Domain=${options.domain}`;
-							}
-
-							cookieHeaders.push(cookie);
-						},
-						deleteCookie: (
-							name: string,
-							options?: Pick<CookieOptions, 'domain' | 'path'>
-						) => {
-							let cookie = `${name}=; Max-Age=0`;
-
-							if (options) {
-								if (options.path) cookie += `; Path=${options.path}`;
-								if (options.domain) cookie += `; Domain=${options.domain}`;
-							}
-
-							cookieHeaders.push(cookie);
-						},
-						setHeader: (key: string, value: string) => {
-							if (!sent) {
-								headers[key] = value;
-							} else {
-								console.warn('Headers already sent');
-							}
-						},
-						redirect: (location: string, statusCode: number = 302) => {
-							sent = true;
-							const mergedHeaders = new Headers({
-								Location: location,
-								...globalHeaders,
-								...headers,
-							});
-
-							cookieHeaders.forEach((cookie) => {
-								mergedHeaders.append('Set-Cookie', cookie);
-							});
-
-							return new Response(null, {
-								status: statusCode,
-								headers: mergedHeaders,
-							});
-						},
-						send: (data: any) => {
-							sent = true;
-
-							let bodyData: BodyInit;
-							const mergedHeaders = new Headers({
-								...globalHeaders,
-								...headers,
-							});
-
-							cookieHeaders.forEach((cookie) => {
-								mergedHeaders.append('Set-Cookie', cookie);
-							});
-
-							if (
-								data instanceof ArrayBuffer ||
-								data instanceof Blob ||
-								data instanceof ReadableStream
-							) {
-								bodyData = data;
-							} else if (typeof data === 'string') {
-								bodyData = data;
-								if (!mergedHeaders.has('Content-Type')) {
-									mergedHeaders.set('Content-Type', 'text/html');
-								}
-							} else if (typeof data === 'object') {
-								bodyData = JSON.stringify(data);
-								if (!mergedHeaders.has('Content-Type')) {
-									mergedHeaders.set('Content-Type', 'application/json');
-								}
-							} else {
-								bodyData = data;
-								if (!mergedHeaders.has('Content-Type')) {
-									mergedHeaders.set('Content-Type', 'application/octet-stream');
-								}
-							}
-
-							return new Response(bodyData, {
-								status,
-								headers: mergedHeaders,
-							});
-						},
-					};
-				};
-
-				const response = await registeredMethods[method][pathKey](req, res());
-				return convertResponseToTestResponse(response);
-			} else {
-				throw new BunServerError('Not found', 404);
-			}
-		} catch (e: any) {
-			if (_errorHandler) {
-				logLine('Sending error to registered handler', e);
-				const errorResponse = _errorHandler({
-					error: e,
-					method,
-					path,
-					headers: new Headers(headers),
-					status: e.status || 500,
-				});
-				return convertResponseToTestResponse(errorResponse);
-			} else {
-				logLine('No handler registered, throwing generic error.');
-				return convertResponseToTestResponse(
-					new Response('Internal server error', { status: 500 })
-				);
-			}
+	/** Answers `e` with the error handler of the route's scopes, or as problem details. */
+	async function handleError(
+		request: Request,
+		path: string,
+		options: TestRequestOptions,
+		context: RequestContext<ProvidedState>,
+		e: any
+	): Promise<Response> {
+		const { method = 'GET', headers = {} } = options;
+		context.error = e;
+		const errorHandler = findErrorHandler(context.scopes);
+		if (errorHandler) {
+			logLine('Sending error to registered handler', e);
+			return errorHandler({
+				error: e,
+				method,
+				path,
+				headers: new Headers(headers),
+				status: e.status,
+			});
+		} else {
+			logLine('No handler registered, sending problem details', e);
+			return createProblemResponse(e, {
+				instance: new URL(request.url).pathname,
+				includeStack: includeErrorStack,
+			});
 		}
 	}
 
 	async function convertResponseToTestResponse(
-		response: Response
+		response: Response,
+		method: string
 	): Promise<TestResponse> {
 		// Parse headers
 		const headers: Record<string, string> = {};
@@ -521,7 +589,10 @@ export function createTestServer<ProvidedState extends object>({
 		let body: any;
 		const contentType = response.headers.get('Content-Type') || '';
 
-		if (contentType.includes('application/json')) {
+		if (method === 'HEAD') {
+			// Like Bun.serve, never send a body in reply to HEAD
+			body = null;
+		} else if (/application\/([\w.-]+\+)?json/.test(contentType)) {
 			try {
 				body = await response.json();
 			} catch {
@@ -543,50 +614,101 @@ export function createTestServer<ProvidedState extends object>({
 			status: response.status,
 			headers,
 			cookies,
+			signedCookies: cookieSigner ? await cookieSigner.verify(cookies) : {},
 			body,
 		};
 	}
 
 	const publicAPI: BunServer<ProvidedState> = {
-		get: function (path: string, handler: HandlerFunc<ProvidedState>) {
+		get: function <Path extends string>(
+			path: Path,
+			handler: HandlerFunc<ProvidedState, PathParams<Path>>,
+			meta?: RouteMeta
+		) {
 			logLine('adding get handler for ', `"${path}"`);
-			registeredMethods.GET[path] = handler;
+			rootRouter.get(path, handler, meta);
 		},
-		post: function (path: string, handler: HandlerFunc<ProvidedState>) {
+		post: function <Path extends string>(
+			path: Path,
+			handler: HandlerFunc<ProvidedState, PathParams<Path>>,
+			meta?: RouteMeta
+		) {
 			logLine('adding post handler for ', `"${path}"`);
-			registeredMethods.POST[path] = handler;
+			rootRouter.post(path, handler, meta);
 		},
-		put: function (path: string, handler: HandlerFunc<ProvidedState>) {
+		put: function <Path extends string>(
+			path: Path,
+			handler: HandlerFunc<ProvidedState, PathParams<Path>>,
+			meta?: RouteMeta
+		) {
 			logLine('adding put handler for ', `"${path}"`);
-			registeredMethods.PUT[path] = handler;
+			rootRouter.put(path, handler, meta);
 		},
-		delete: function (path: string, handler: HandlerFunc<ProvidedState>) {
+		delete: function <Path extends string>(
+			path: Path,
+			handler: HandlerFunc<ProvidedState, PathParams<Path>>,
+			meta?: RouteMeta
+		) {
 			logLine('adding delete handler for ', `"${path}"`);
-			registeredMethods.DELETE[path] = handler;
+			rootRouter.delete(path, handler, meta);
 		},
-		patch: function (path: string, handler: HandlerFunc<ProvidedState>) {
+		patch: function <Path extends string>(
+			path: Path,
+			handler: HandlerFunc<ProvidedState, PathParams<Path>>,
+			meta?: RouteMeta
+		) {
 			logLine('adding patch handler for ', `"${path}"`);
-			registeredMethods.PATCH[path] = handler;
+			rootRouter.patch(path, handler, meta);
 		},
-		options: function (path: string, handler: HandlerFunc<ProvidedState>) {
+		options: function <Path extends string>(
+			path: Path,
+			handler: HandlerFunc<ProvidedState, PathParams<Path>>,
+			meta?: RouteMeta
+		) {
 			logLine('adding options handler for ', `"${path}"`);
-			registeredMethods.OPTIONS[path] = handler;
+			rootRouter.options(path, handler, meta);
+		},
+		head: function <Path extends string>(
+			path: Path,
+			handler: HandlerFunc<ProvidedState, PathParams<Path>>,
+			meta?: RouteMeta
+		) {
+			logLine('adding head handler for ', `"${path}"`);
+			rootRouter.head(path, handler, meta);
 		},
 		onError: function (errorHandler: ErrorHandler) {
 			logLine('adding error handler');
-			_errorHandler = errorHandler;
+			rootRouter.onError(errorHandler);
+		},
+		group: function <Prefix extends string>(
+			prefix: Prefix,
+			configure: (router: BunRouter<ProvidedState, PathParams<Prefix>>) => void,
+			options?: RouterOptions
+		) {
+			logLine('adding route group', `"${prefix}"`);
+			return rootRouter.group(prefix, configure, options);
+		},
+		mount: function (prefix: string, router: BunRouter<ProvidedState, any>) {
+			logLine('mounting router at', `"${prefix}"`);
+			rootRouter.mount(prefix, router);
 		},
+		getOpenAPIDocument,
+		getWafStats: () => ({ inspected: 0, blocked: 0, banned: 0, rules: [] }),
 		addPublicDirectory: function (dir: string) {
 			logLine('addPublicDirectory called but is a no-op in test server');
 			// No-op for test server
 		},
-		addPreRequestHandler: function (
-			handler: (
-				req: RequestHandler<ProvidedState>
-			) => boolean | Response | Promise<boolean | Response>
-		) {
+		addEmbeddedAssets: function () {
+			logLine('addEmbeddedAssets called but is a no-op in test server');
+			// No-op for test server
+		},
+		addPreRequestHandler: function (handler: PreRequestHandler<ProvidedState>) {
 			logLine('adding prerequest handler');
-			_preRequestHandlers.push(handler);
+			rootRouter.addPreRequestHandler(handler);
+		},
+		use: function (middleware: Middleware<ProvidedState>) {
+			logLine('adding middleware');
+			rootRouter.use(middleware);
 		},
 		start: () => {
 			logLine('start() called but is a no-op in test server');
@@ -0,0 +1,92 @@
+import { describe, expect, test } from 'bun:test';
+import { gunzipSync } from 'zlib';
+import { compressResponse, negotiateEncoding } from './compression';
+
+const text = 'hello world '.repeat(200);
+
+function fileResponse(method: string) {
+	return {
+		request: new Request('http://localhost/file.txt', {
+			method,
+			headers: { 'Accept-Encoding': 'gzip' },
+		}),
+		response: new Response(method === 'HEAD' ? null : text, {
+			headers: {
+				'Content-Type': 'text/plain',
+				'Content-Length': String(text.length),
+				'Accept-Ranges': 'bytes',
+				ETag: '"abc"',
+			},
+		}),
+	};
+}
+
+describe('negotiateEncoding', () => {
+	test('picks the highest q value, then the server order', () => {
+		expect(negotiateEncoding('gzip;q=0.5, br', ['br', 'gzip'])).toBe('br');
+		expect(negotiateEncoding('gzip, br', ['br', 'gzip'])).toBe('br');
+		expect(negotiateEncoding('gzip, br;q=0', ['br', 'gzip'])).toBe('gzip');
+		expect(negotiateEncoding('identity', ['br', 'gzip'])).toBeNull();
+	});
+});
+
+describe('compressResponse', () => {
+	test('compresses large bodies and drops identity-only headers', async () => {
+		const { request, response } = fileResponse('GET');
+
+		const compressed = await compressResponse(request, response);
+
+		expect(compressed.headers.get('Content-Encoding')).toBe('gzip');
+		expect(compressed.headers.get('Content-Length')).toBeNull();
+		expect(compressed.headers.get('Accept-Ranges')).toBeNull();
+		expect(compressed.headers.get('ETag')).toBe('W/"abc"');
+		expect(compressed.headers.get('Vary')).toBe('Accept-Encoding');
+		const body = Buffer.from(await compressed.arrayBuffer());
+		expect(gunzipSync(body).toString()).toBe(text);
+	});
+
+	test('gives HEAD the headers of the compressed GET', async () => {
+		const { request, response } = fileResponse('HEAD');
+
+		const head = await compressResponse(request, response);
+
+		expect(head.headers.get('Content-Encoding')).toBe('gzip');
+		expect(head.headers.get('Content-Length')).toBeNull();
+		expect(head.headers.get('Accept-Ranges')).toBeNull();
+		expect(head.headers.get('ETag')).toBe('W/"abc"');
+	});
+
+	test('leaves bodies under the threshold alone', async () => {
+		const request = new Request('http://localhost/', {
+			headers: { 'Accept-Encoding': 'gzip' },
+		});
+		const response = new Response('{"ok":true}', {
+			headers: { 'Content-Type': 'application/json' },
+		});
+
+		const result = await compressResponse(request, response);
+
+		expect(result.headers.get('Content-Encoding')).toBeNull();
+		expect(await result.text()).toBe('{"ok":true}');
+	});
+
+	test('leaves partial content and excluded types alone', async () => {
+		const request = new Request('http://localhost/', {
+			headers: { 'Accept-Encoding': 'gzip' },
+		});
+		const partial = new Response(text, {
+			status: 206,
+			headers: { 'Content-Type': 'text/plain' },
+		});
+		const image = new Response(text, {
+			headers: { 'Content-Type': 'image/png' },
+		});
+
+		expect(
+			(await compressResponse(request, partial)).headers.get('Content-Encoding')
+		).toBeNull();
+		expect(
+			(await compressResponse(request, image)).headers.get('Content-Encoding')
+		).toBeNull();
+	});
+});
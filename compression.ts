@@ -0,0 +1,179 @@
+import type { CompressionEncoding, CompressionOptions } from './server-types';
+import { appendVary } from './cors';
+
+// Text-like types that usually shrink a lot
+const DEFAULT_CONTENT_TYPES: Array<string | RegExp> = [
+	'text/',
+	'application/json',
+	'application/javascript',
+	'application/xml',
+	'image/svg+xml',
+	/\+(json|xml)$/,
+];
+
+// Types that are already compressed, so compressing them again only costs CPU
+const ALREADY_COMPRESSED =
+	/^(image\/(?!svg)|video\/|audio\/|font\/woff2?|application\/(zip|gzip|x-gzip|x-bzip2|x-7z-compressed|x-rar-compressed|zstd|pdf))/;
+
+const STREAM_FORMATS: Record<CompressionEncoding, string> = {
+	br: 'brotli',
+	gzip: 'gzip',
+	deflate: 'deflate',
+};
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function isCompressible(
+	contentType: string,
+	allowed: Array<string | RegExp>
+): boolean {
+	const type = contentType.split(';')[0]!.trim().toLowerCase();
+	if (!type || ALREADY_COMPRESSED.test(type) || type === 'text/event-stream') {
+		return false;
+	}
+	return allowed.some((pattern) =>
+		pattern instanceof RegExp ? pattern.test(type) : type.startsWith(pattern)
+	);
+}
+
+/** A stream that sends `first` and then the rest of what `reader` reads. */
+function prependChunk<Chunk>(
+	first: Chunk | undefined,
+	reader: ReadableStreamDefaultReader<Chunk>
+): ReadableStream<Chunk> {
+	return new ReadableStream<Chunk>({
+		start: (controller) => {
+			if (first) controller.enqueue(first);
+		},
+		pull: async (controller) => {
+			const { done, value } = await reader.read();
+			if (done) controller.close();
+			else controller.enqueue(value);
+		},
+		cancel: (reason) => reader.cancel(reason),
+	});
+}
+
+/** Describes the compressed body in `headers` in place of the identity one. */
+function setEncodedHeaders(
+	headers: Headers,
+	encoding: CompressionEncoding
+): void {
+	headers.set('Content-Encoding', encoding);
+	headers.delete('Content-Length');
+	// Byte ranges of the identity body don't address the compressed one
+	headers.delete('Accept-Ranges');
+	// The encoded bytes differ, so a strong validator no longer applies
+	const etag = headers.get('ETag');
+	if (etag?.startsWith('"')) {
+		headers.set('ETag', `W/${etag}`);
+	}
+}
+
+// ─── Public helpers ───────────────────────────────────────────────────────────
+
+/**
+ * Picks the encoding with the highest `q` value in `Accept-Encoding`, breaking
+ * ties with the server's order of preference.
+ */
+export function negotiateEncoding<Encoding extends string>(
+	acceptEncoding: string,
+	encodings: readonly Encoding[]
+): Encoding | null {
+	const weights = new Map<string, number>();
+	for (const entry of acceptEncoding.split(',')) {
+		const [name, ...params] = entry.trim().toLowerCase().split(';');
+		if (!name) continue;
+		const q = params.map((p) => p.trim()).find((p) => p.startsWith('q='));
+		weights.set(name, q ? Number(q.slice(2)) || 0 : 1);
+	}
+
+	let best: Encoding | null = null;
+	let bestWeight = 0;
+	for (const encoding of encodings) {
+		const weight = weights.get(encoding) ?? weights.get('*') ?? 0;
+		if (weight > bestWeight) {
+			best = encoding;
+			bestWeight = weight;
+		}
+	}
+	return best;
+}
+
+/**
+ * Compresses `response` with the best encoding the client accepts. Responses that
+ * are too small, of a type outside the allowlist, already encoded, partial or
+ * bodiless are returned unchanged apart from `Vary: Accept-Encoding`. A HEAD
+ * response gets the headers the matching GET would be sent with, where its
+ * `Content-Length` says the GET would be compressed.
+ */
+export async function compressResponse(
+	request: Request,
+	response: Response,
+	{
+		encodings = ['br', 'gzip', 'deflate'],
+		threshold = 1024,
+		contentTypes = DEFAULT_CONTENT_TYPES,
+	}: CompressionOptions = {}
+): Promise<Response> {
+	const headers = response.headers;
+	const isHead = request.method === 'HEAD';
+	if (
+		(!response.body && !isHead) ||
+		response.status < 200 ||
+		response.status === 204 ||
+		response.status === 206 ||
+		response.status === 304 ||
+		headers.has('Content-Encoding') ||
+		/\bno-transform\b/i.test(headers.get('Cache-Control') ?? '') ||
+		!isCompressible(headers.get('Content-Type') ?? '', contentTypes)
+	) {
+		return response;
+	}
+
+	// The body depends on Accept-Encoding from here on, whatever this client sent
+	appendVary(headers, 'Accept-Encoding');
+
+	const encoding = negotiateEncoding(
+		request.headers.get('Accept-Encoding') ?? '',
+		encodings
+	);
+	if (!encoding) {
+		return response;
+	}
+
+	const contentLength = headers.get('Content-Length');
+	// HEAD has nothing to compress, but must describe the GET response it stands for
+	if (isHead || !response.body) {
+		if (contentLength !== null && Number(contentLength) >= threshold) {
+			setEncodedHeaders(headers, encoding);
+		}
+		return response;
+	}
+
+	// Without a length, judge the body by its first chunk instead of reading it all:
+	// in-memory bodies arrive whole or in large chunks, and streams keep streaming
+	let body = response.body;
+	let size = Number(contentLength);
+	if (contentLength === null) {
+		const reader = body.getReader();
+		const first = await reader.read();
+		size = first.value?.byteLength ?? 0;
+		body = prependChunk(first.value, reader);
+	}
+	if (size < threshold) {
+		return contentLength === null ? new Response(body, response) : response;
+	}
+
+	const stream = body.pipeThrough(
+		new CompressionStream(STREAM_FORMATS[encoding] as CompressionFormat)
+	);
+
+	setEncodedHeaders(headers, encoding);
+
+	return new Response(stream, {
+		status: response.status,
+		statusText: response.statusText,
+		headers,
+	});
+}
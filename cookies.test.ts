@@ -0,0 +1,94 @@
+import { describe, expect, test } from 'bun:test';
+import { createTestServer } from './bun-test-server';
+import { createCookieSigner } from './cookies';
+
+describe('createCookieSigner', () => {
+	test('verifies signed values bound to the cookie name', async () => {
+		const signer = createCookieSigner(['secret-one']);
+		const signed = await signer.sign('remember', '1');
+
+		expect(signed).toStartWith('s:1.');
+		expect(await signer.verify({ remember: signed })).toEqual({
+			remember: '1',
+		});
+		expect(await signer.verify({ admin: signed })).toEqual({});
+		expect(
+			await signer.verify({ remember: signed.replace('s:1.', 's:0.') })
+		).toEqual({});
+	});
+
+	test('encrypts values so they are unreadable and tamper-proof', async () => {
+		const signer = createCookieSigner(['secret-one']);
+		const encrypted = await signer.encrypt('cart', 'book-42');
+		const tampered =
+			encrypted.slice(0, -2) + (encrypted.endsWith('A') ? 'BB' : 'AA');
+
+		expect(encrypted).toStartWith('e:');
+		expect(encrypted).not.toContain('book-42');
+		expect(await signer.verify({ cart: encrypted })).toEqual({
+			cart: 'book-42',
+		});
+		expect(await signer.verify({ cart: tampered })).toEqual({});
+	});
+
+	test('accepts cookies from rotated-out secrets until they are dropped', async () => {
+		const old = createCookieSigner(['old-secret']);
+		const rotated = createCookieSigner(['new-secret', 'old-secret']);
+		const dropped = createCookieSigner(['new-secret']);
+		const cookies = {
+			remember: await old.sign('remember', '1'),
+			cart: await old.encrypt('cart', 'book-42'),
+			theme: 'dark',
+		};
+
+		expect(await rotated.verify(cookies)).toEqual({
+			remember: '1',
+			cart: 'book-42',
+		});
+		expect(await dropped.verify(cookies)).toEqual({});
+	});
+
+	test('refuses empty secrets', () => {
+		expect(() => createCookieSigner([])).toThrow(
+			'cookieSecrets must be a non-empty list of non-empty strings'
+		);
+		expect(() => createCookieSigner(['ok', ''])).toThrow();
+	});
+});
+
+describe('signed cookies', () => {
+	function createApp() {
+		const app = createTestServer({ cookieSecrets: ['test-secret'] });
+		app.post('/login', async (req, res) => {
+			await res.setCookie('remember', '1', { signed: true, httpOnly: true });
+			await res.setCookie('user', 'ada', { encrypted: true });
+			return res.send({ ok: true });
+		});
+		app.get('/me', (req, res) =>
+			res.send({ signed: req.signedCookies, plain: req.cookies })
+		);
+		return app;
+	}
+
+	test('are set by the handler and verified in the test response', async () => {
+		const app = createApp();
+
+		const response = await app.call('/login', { method: 'POST' });
+
+		expect(response.signedCookies).toEqual({ remember: '1', user: 'ada' });
+		expect(response.cookies['user']).not.toContain('ada');
+	});
+
+	test('reach req.signedCookies only when they verify', async () => {
+		const app = createApp();
+
+		const response = await app.call('/me', {
+			signedCookies: { remember: '1' },
+			encryptedCookies: { user: 'ada' },
+			cookies: { forged: 's:1.bad-signature', theme: 'dark' },
+		});
+
+		expect(response.body.signed).toEqual({ remember: '1', user: 'ada' });
+		expect(response.body.plain.theme).toBe('dark');
+	});
+});
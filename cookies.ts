@@ -0,0 +1,173 @@
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// Prefixes that mark a cookie value as signed or encrypted by the server
+const SIGNED_PREFIX = 's:';
+const ENCRYPTED_PREFIX = 'e:';
+
+// AES-GCM nonce length in bytes
+const IV_LENGTH = 12;
+
+/** Signs, encrypts and verifies cookie values with the server's `cookieSecrets`. */
+export type CookieSigner = {
+	/** Returns `value` with an HMAC-SHA256 signature bound to the cookie name. */
+	sign: (name: string, value: string) => Promise<string>;
+	/** Returns `value` encrypted with AES-GCM, authenticated with the cookie name. */
+	encrypt: (name: string, value: string) => Promise<string>;
+	/**
+	 * Verifies or decrypts every signed and encrypted cookie, trying each secret in
+	 * turn. Plain cookies and values that fail verification are left out.
+	 */
+	verify: (cookies: Record<string, string>) => Promise<Record<string, string>>;
+};
+
+type SecretKeys = { hmac: CryptoKey; aes: CryptoKey };
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Derives separate signing and encryption keys from one secret with HKDF. */
+async function deriveKeys(secret: string): Promise<SecretKeys> {
+	const material = await crypto.subtle.importKey(
+		'raw',
+		encoder.encode(secret),
+		'HKDF',
+		false,
+		['deriveKey']
+	);
+	const derive = (
+		info: string,
+		algorithm: HmacKeyGenParams | AesKeyGenParams
+	) =>
+		crypto.subtle.deriveKey(
+			{
+				name: 'HKDF',
+				hash: 'SHA-256',
+				salt: new Uint8Array(0),
+				info: encoder.encode(info),
+			},
+			material,
+			algorithm,
+			false,
+			algorithm.name === 'HMAC' ? ['sign', 'verify'] : ['encrypt', 'decrypt']
+		);
+
+	return {
+		hmac: await derive('bun-server cookie signing', {
+			name: 'HMAC',
+			hash: 'SHA-256',
+			length: 256,
+		}),
+		aes: await derive('bun-server cookie encryption', {
+			name: 'AES-GCM',
+			length: 256,
+		}),
+	};
+}
+
+async function verifySigned(
+	name: string,
+	signed: string,
+	keys: SecretKeys[]
+): Promise<string | null> {
+	const dot = signed.lastIndexOf('.');
+	if (dot === -1) return null;
+
+	const value = signed.slice(0, dot);
+	const signature = Buffer.from(signed.slice(dot + 1), 'base64url');
+	const data = encoder.encode(`${name}=${value}`);
+	for (const { hmac } of keys) {
+		if (await crypto.subtle.verify('HMAC', hmac, signature, data)) {
+			return value;
+		}
+	}
+	return null;
+}
+
+async function decrypt(
+	name: string,
+	encrypted: string,
+	keys: SecretKeys[]
+): Promise<string | null> {
+	const bytes = Buffer.from(encrypted, 'base64url');
+	if (bytes.byteLength <= IV_LENGTH) return null;
+
+	const iv = bytes.subarray(0, IV_LENGTH);
+	const ciphertext = bytes.subarray(IV_LENGTH);
+	for (const { aes } of keys) {
+		try {
+			const plaintext = await crypto.subtle.decrypt(
+				{ name: 'AES-GCM', iv, additionalData: encoder.encode(name) },
+				aes,
+				ciphertext
+			);
+			return decoder.decode(plaintext);
+		} catch {
+			// Wrong key or tampered value, try the next secret
+		}
+	}
+	return null;
+}
+
+// ─── Public helpers ───────────────────────────────────────────────────────────
+
+/**
+ * Creates a signer for `secrets`. The first secret signs and encrypts new
+ * cookies; all of them are accepted when verifying, so a secret can be rotated
+ * by putting the new one first and dropping the old one once its cookies expire.
+ */
+export function createCookieSigner(secrets: string[]): CookieSigner {
+	if (secrets.length === 0 || secrets.some((secret) => !secret)) {
+		throw new Error(
+			'cookieSecrets must be a non-empty list of non-empty strings'
+		);
+	}
+
+	let keys: Promise<SecretKeys[]> | undefined;
+	const getKeys = () => (keys ??= Promise.all(secrets.map(deriveKeys)));
+
+	return {
+		sign: async (name, value) => {
+			const [{ hmac }] = (await getKeys()) as [SecretKeys];
+			const signature = await crypto.subtle.sign(
+				'HMAC',
+				hmac,
+				encoder.encode(`${name}=${value}`)
+			);
+			return `${SIGNED_PREFIX}${value}.${Buffer.from(signature).toString('base64url')}`;
+		},
+		encrypt: async (name, value) => {
+			const [{ aes }] = (await getKeys()) as [SecretKeys];
+			const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+			const ciphertext = await crypto.subtle.encrypt(
+				{ name: 'AES-GCM', iv, additionalData: encoder.encode(name) },
+				aes,
+				encoder.encode(value)
+			);
+			const payload = Buffer.concat([iv, new Uint8Array(ciphertext)]);
+			return `${ENCRYPTED_PREFIX}${payload.toString('base64url')}`;
+		},
+		verify: async (cookies) => {
+			const verified: Record<string, string> = {};
+			for (const [name, raw] of Object.entries(cookies)) {
+				let value: string | null = null;
+				if (raw.startsWith(SIGNED_PREFIX)) {
+					value = await verifySigned(
+						name,
+						raw.slice(SIGNED_PREFIX.length),
+						await getKeys()
+					);
+				} else if (raw.startsWith(ENCRYPTED_PREFIX)) {
+					value = await decrypt(
+						name,
+						raw.slice(ENCRYPTED_PREFIX.length),
+						await getKeys()
+					);
+				}
+				if (value !== null) {
+					verified[name] = value;
+				}
+			}
+			return verified;
+		},
+	};
+}
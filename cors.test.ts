@@ -0,0 +1,113 @@
+import { describe, expect, test } from 'bun:test';
+import { createTestServer } from './bun-test-server';
+import { appendVary } from './cors';
+
+function createApp() {
+	const app = createTestServer({
+		cors: {
+			origin: ['https://app.example.com', /\.example\.dev$/],
+			credentials: true,
+			exposedHeaders: ['X-Total-Count'],
+			maxAge: 600,
+		},
+	});
+	app.get('/items', (req, res) => res.send([]));
+	app.post('/items', (req, res) => res.send({}));
+	app.get('/fail', () => {
+		throw new Error('boom');
+	});
+	return app;
+}
+
+describe('CORS', () => {
+	test('echoes allowed origins', async () => {
+		const app = createApp();
+
+		const response = await app.call('/items', {
+			headers: { Origin: 'https://preview.example.dev' },
+		});
+
+		expect(response.headers['access-control-allow-origin']).toBe(
+			'https://preview.example.dev'
+		);
+		expect(response.headers['access-control-allow-credentials']).toBe('true');
+		expect(response.headers['access-control-expose-headers']).toBe(
+			'X-Total-Count'
+		);
+		expect(response.headers.vary).toBe('Origin');
+	});
+
+	test('adds no CORS headers for other origins', async () => {
+		const app = createApp();
+
+		const response = await app.call('/items', {
+			headers: { Origin: 'https://evil.example.com' },
+		});
+
+		expect(response.status).toBe(200);
+		expect(response.headers['access-control-allow-origin']).toBeUndefined();
+	});
+
+	test('answers preflights with the registered methods', async () => {
+		const app = createApp();
+
+		const response = await app.call('/items', {
+			method: 'OPTIONS',
+			headers: {
+				Origin: 'https://app.example.com',
+				'Access-Control-Request-Method': 'POST',
+				'Access-Control-Request-Headers': 'Content-Type',
+			},
+		});
+
+		expect(response.status).toBe(204);
+		expect(response.headers['access-control-allow-methods']).toBe(
+			'GET, POST, HEAD'
+		);
+		expect(response.headers['access-control-allow-headers']).toBe(
+			'Content-Type'
+		);
+		expect(response.headers['access-control-max-age']).toBe('600');
+	});
+
+	test('applies to error responses too', async () => {
+		const app = createApp();
+
+		const response = await app.call('/fail', {
+			headers: { Origin: 'https://app.example.com' },
+		});
+
+		expect(response.status).toBe(500);
+		expect(response.headers['access-control-allow-origin']).toBe(
+			'https://app.example.com'
+		);
+	});
+
+	test('lets groups replace the server policy', async () => {
+		const app = createApp();
+		app.group(
+			'/public',
+			(api) => {
+				api.get('/status', (req, res) => res.send({ ok: true }));
+			},
+			{ cors: { origin: '*' } }
+		);
+
+		const response = await app.call('/public/status', {
+			headers: { Origin: 'https://anywhere.test' },
+		});
+
+		expect(response.headers['access-control-allow-origin']).toBe('*');
+	});
+});
+
+describe('appendVary', () => {
+	test('adds each value once', () => {
+		const headers = new Headers({ Vary: 'Origin' });
+
+		appendVary(headers, 'Accept-Encoding');
+		appendVary(headers, 'origin');
+
+		expect(headers.get('Vary')).toBe('Origin, Accept-Encoding');
+	});
+});
@@ -0,0 +1,142 @@
+import type { CorsOptions, CorsOrigin } from './server-types';
+import type { RouteScope } from './router';
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+async function isOriginAllowed(
+	origin: string,
+	request: Request,
+	allowed: CorsOrigin
+): Promise<boolean> {
+	if (allowed === '*') return true;
+	if (typeof allowed === 'function') return allowed(origin, request);
+
+	const candidates = Array.isArray(allowed) ? allowed : [allowed];
+	return candidates.some((candidate) =>
+		candidate instanceof RegExp ? candidate.test(origin) : candidate === origin
+	);
+}
+
+/** Adds `value` to the Vary header unless it's already listed. */
+export function appendVary(headers: Headers, value: string): void {
+	const existing = headers.get('Vary');
+	if (!existing) {
+		headers.set('Vary', value);
+	} else if (
+		!existing
+			.split(',')
+			.some((v) => v.trim().toLowerCase() === value.toLowerCase())
+	) {
+		headers.set('Vary', `${existing}, ${value}`);
+	}
+}
+
+// ─── Public helpers ───────────────────────────────────────────────────────────
+
+/** Returns the CORS policy of the innermost scope that has one. */
+export function findCorsOptions<StateType>(
+	scopes: RouteScope<StateType>[]
+): CorsOptions | null {
+	for (let i = scopes.length - 1; i >= 0; i--) {
+		const cors = scopes[i]!.cors;
+		if (cors) return cors;
+	}
+	return null;
+}
+
+/** True for a browser CORS preflight: an OPTIONS request announcing the real method. */
+export function isPreflightRequest(request: Request): boolean {
+	return (
+		request.method.toUpperCase() === 'OPTIONS' &&
+		request.headers.has('Origin') &&
+		request.headers.has('Access-Control-Request-Method')
+	);
+}
+
+/**
+ * Builds the 204 reply to a CORS preflight. `methods` are the methods registered
+ * for the path and are used unless the policy lists its own. The origin headers
+ * are added afterwards by `applyCorsHeaders`, like for any other response.
+ */
+export function createPreflightResponse(
+	request: Request,
+	options: CorsOptions,
+	methods: string[]
+): Response {
+	const headers = new Headers();
+
+	headers.set(
+		'Access-Control-Allow-Methods',
+		(options.methods ?? methods).join(', ')
+	);
+
+	if (options.allowedHeaders) {
+		headers.set(
+			'Access-Control-Allow-Headers',
+			options.allowedHeaders.join(', ')
+		);
+	} else {
+		const requested = request.headers.get('Access-Control-Request-Headers');
+		if (requested) {
+			headers.set('Access-Control-Allow-Headers', requested);
+		}
+		appendVary(headers, 'Access-Control-Request-Headers');
+	}
+
+	if (options.maxAge !== undefined) {
+		headers.set('Access-Control-Max-Age', String(options.maxAge));
+	}
+
+	return new Response(null, { status: 204, headers });
+}
+
+/**
+ * Adds the CORS headers for the request's Origin to `response`. Requests without an
+ * Origin, or from an origin the policy rejects, are left untouched so the browser
+ * blocks them. Preflight-only headers are stripped for rejected origins.
+ *
+ * @param exposedHeaders - extra headers to expose on top of the policy's own,
+ *   e.g. `Mcp-Session-Id` for MCP responses
+ */
+export async function applyCorsHeaders(
+	response: Response,
+	request: Request,
+	options: CorsOptions,
+	exposedHeaders: string[] = []
+): Promise<Response> {
+	const origin = request.headers.get('Origin');
+	const allowedOrigin = options.origin ?? '*';
+	const headers = response.headers;
+
+	if (!origin || !(await isOriginAllowed(origin, request, allowedOrigin))) {
+		if (origin && isPreflightRequest(request)) {
+			headers.delete('Access-Control-Allow-Methods');
+			headers.delete('Access-Control-Allow-Headers');
+			headers.delete('Access-Control-Max-Age');
+		}
+		// Any other origin may be allowed, so caches must still key on it
+		if (allowedOrigin !== '*') {
+			appendVary(headers, 'Origin');
+		}
+		return response;
+	}
+
+	// '*' is not allowed together with credentials, so echo the origin instead
+	if (allowedOrigin === '*' && !options.credentials) {
+		headers.set('Access-Control-Allow-Origin', '*');
+	} else {
+		headers.set('Access-Control-Allow-Origin', origin);
+		appendVary(headers, 'Origin');
+	}
+
+	if (options.credentials) {
+		headers.set('Access-Control-Allow-Credentials', 'true');
+	}
+
+	const exposed = [...(options.exposedHeaders ?? []), ...exposedHeaders];
+	if (exposed.length > 0 && !isPreflightRequest(request)) {
+		headers.set('Access-Control-Expose-Headers', exposed.join(', '));
+	}
+
+	return response;
+}
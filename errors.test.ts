@@ -0,0 +1,98 @@
+import { describe, expect, test } from 'bun:test';
+import { createTestServer } from './bun-test-server';
+import {
+	BunServerError,
+	NotFoundError,
+	ValidationError,
+	createProblemResponse,
+} from './errors';
+
+describe('createProblemResponse', () => {
+	test('describes a BunServerError with its status, message and params', async () => {
+		const response = createProblemResponse(
+			new NotFoundError('No such user', { userId: '42', status: '200' }),
+			{ instance: '/users/42' }
+		);
+
+		expect(response.status).toBe(404);
+		expect(response.headers.get('Content-Type')).toBe(
+			'application/problem+json'
+		);
+		expect(await response.json()).toEqual({
+			type: 'about:blank',
+			title: 'Not Found',
+			status: 404,
+			detail: 'No such user',
+			instance: '/users/42',
+			userId: '42',
+		});
+	});
+
+	test('lists the issues of a ValidationError', async () => {
+		const response = createProblemResponse(
+			new ValidationError(undefined, [{ path: 'email', message: 'Required' }])
+		);
+
+		expect(response.status).toBe(422);
+		expect((await response.json()).errors).toEqual([
+			{ path: 'email', message: 'Required' },
+		]);
+	});
+
+	test('hides the message of unexpected errors unless asked to', async () => {
+		const error = new Error('connection string: postgres://secret');
+
+		const hidden = await createProblemResponse(error).json();
+		const shown = await createProblemResponse(error, {
+			includeStack: true,
+		}).json();
+
+		expect(hidden).toEqual({
+			type: 'about:blank',
+			title: 'Internal Server Error',
+			status: 500,
+		});
+		expect(shown.detail).toBe(error.message);
+		expect(shown.stack).toBeArray();
+	});
+
+	test('falls back to 500 for statuses that are not errors', () => {
+		expect(createProblemResponse(new BunServerError('odd', 302)).status).toBe(
+			500
+		);
+	});
+});
+
+describe('error handling', () => {
+	test('sends thrown errors as problem details without an onError handler', async () => {
+		const app = createTestServer();
+		app.get('/users/:id', () => {
+			throw new NotFoundError();
+		});
+
+		const response = await app.call('/users/42');
+
+		expect(response.status).toBe(404);
+		expect(response.body).toMatchObject({ status: 404, instance: '/users/42' });
+	});
+
+	test('passes the error status to onError as the server does', async () => {
+		const app = createTestServer();
+		const statuses: unknown[] = [];
+		app.onError(({ status }) => {
+			statuses.push(status);
+			return new Response(null, { status: 418 });
+		});
+		app.get('/missing', () => {
+			throw new NotFoundError();
+		});
+		app.get('/broken', () => {
+			throw new Error('boom');
+		});
+
+		await app.call('/missing');
+		await app.call('/broken');
+
+		expect(statuses).toEqual([404, undefined]);
+	});
+});
@@ -0,0 +1,135 @@
+import { STATUS_CODES } from 'http';
+import type { ProblemDetails, ValidationIssue } from './server-types';
+
+// Members defined by RFC 9457, which `params` may not overwrite
+const PROBLEM_MEMBERS = ['type', 'title', 'status', 'detail', 'instance'];
+
+export class BunServerError extends Error {
+	public params: Record<string, string> = {};
+	constructor(
+		message: string,
+		public status: number,
+		params?: Record<string, string>
+	) {
+		super(message);
+		this.name = new.target.name;
+		if (params) {
+			this.params = params;
+		}
+	}
+}
+
+export class BadRequestError extends BunServerError {
+	constructor(message = 'Bad Request', params?: Record<string, string>) {
+		super(message, 400, params);
+	}
+}
+
+export class UnauthorizedError extends BunServerError {
+	constructor(message = 'Unauthorized', params?: Record<string, string>) {
+		super(message, 401, params);
+	}
+}
+
+export class ForbiddenError extends BunServerError {
+	constructor(message = 'Forbidden', params?: Record<string, string>) {
+		super(message, 403, params);
+	}
+}
+
+export class NotFoundError extends BunServerError {
+	constructor(message = 'Not found', params?: Record<string, string>) {
+		super(message, 404, params);
+	}
+}
+
+export class ConflictError extends BunServerError {
+	constructor(message = 'Conflict', params?: Record<string, string>) {
+		super(message, 409, params);
+	}
+}
+
+/** A client over a rate limit. `retryAfter` is usually set to the seconds it should wait. */
+export class TooManyRequestsError extends BunServerError {
+	constructor(message = 'Too many requests', params?: Record<string, string>) {
+		super(message, 429, params);
+	}
+}
+
+/** Input that is well-formed but invalid. `errors` lists what is wrong with it. */
+export class ValidationError extends BunServerError {
+	constructor(
+		message = 'Validation failed',
+		public errors: ValidationIssue[] = [],
+		params?: Record<string, string>
+	) {
+		super(message, 422, params);
+	}
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Describes `error` as an RFC 9457 problem. A `BunServerError` supplies the
+ * status, its message becomes `detail` and its `params` become extension
+ * members. Anything else is a 500 whose message is only shown with `includeStack`,
+ * since it may reveal internals.
+ */
+function toProblemDetails(
+	error: unknown,
+	{
+		instance,
+		includeStack = false,
+	}: { instance?: string; includeStack?: boolean } = {}
+): ProblemDetails {
+	const isServerError = error instanceof BunServerError;
+	// A status outside the error range can't describe a failure (or build a Response)
+	const status =
+		isServerError && error.status >= 400 && error.status <= 599
+			? Math.trunc(error.status)
+			: 500;
+
+	const problem: ProblemDetails = {
+		type: 'about:blank',
+		title: STATUS_CODES[status] ?? 'Error',
+		status,
+	};
+	if (isServerError || includeStack) {
+		const message = error instanceof Error ? error.message : String(error);
+		if (message) problem.detail = message;
+	}
+	if (instance) {
+		problem.instance = instance;
+	}
+
+	if (isServerError) {
+		for (const [key, value] of Object.entries(error.params)) {
+			if (!PROBLEM_MEMBERS.includes(key)) problem[key] = value;
+		}
+	}
+	if (error instanceof ValidationError) {
+		problem.errors = error.errors;
+	}
+	if (includeStack && error instanceof Error && error.stack) {
+		problem.stack = error.stack.split('\n').map((line) => line.trim());
+	}
+
+	return problem;
+}
+
+// ─── Public helpers ───────────────────────────────────────────────────────────
+
+/**
+ * Builds the `application/problem+json` response sent when no `onError` handler
+ * is registered. Handlers can call it too, to keep the same format.
+ */
+export function createProblemResponse(
+	error: unknown,
+	options?: { instance?: string; includeStack?: boolean }
+): Response {
+	const problem = toProblemDetails(error, options);
+	return new Response(JSON.stringify(problem), {
+		status: problem.status,
+		headers: { 'Content-Type': 'application/problem+json' },
+	});
+}
@@ -0,0 +1,99 @@
+import { describe, expect, test } from 'bun:test';
+import { createFileResponse } from './file-response';
+
+const lastModified = Date.parse('2024-05-01T12:00:00Z');
+const file = new File(['0123456789'], 'digits.txt', { lastModified });
+
+function serve(headers: Record<string, string> = {}, method = 'GET') {
+	return createFileResponse(
+		new Request('http://localhost/digits.txt', { method, headers }),
+		file,
+		new Headers({ 'Content-Type': 'text/plain' })
+	);
+}
+
+describe('createFileResponse', () => {
+	test('sends the whole file with validators and Accept-Ranges', async () => {
+		const response = serve();
+
+		expect(response.status).toBe(200);
+		expect(await response.text()).toBe('0123456789');
+		expect(response.headers.get('Accept-Ranges')).toBe('bytes');
+		expect(response.headers.get('Content-Length')).toBe('10');
+		expect(response.headers.get('ETag')).toBe(
+			`"a-${lastModified.toString(16)}"`
+		);
+		expect(response.headers.get('Last-Modified')).toBe(
+			'Wed, 01 May 2024 12:00:00 GMT'
+		);
+	});
+
+	test('answers 304 when the cached copy is current', () => {
+		const etag = serve().headers.get('ETag')!;
+
+		expect(serve({ 'If-None-Match': etag }).status).toBe(304);
+		expect(
+			serve({ 'If-Modified-Since': 'Wed, 01 May 2024 12:00:00 GMT' }).status
+		).toBe(304);
+		expect(
+			serve({ 'If-Modified-Since': 'Wed, 01 May 2024 11:00:00 GMT' }).status
+		).toBe(200);
+	});
+
+	test('serves a single range as 206', async () => {
+		const start = serve({ Range: 'bytes=2-4' });
+		const suffix = serve({ Range: 'bytes=-3' });
+
+		expect(start.status).toBe(206);
+		expect(start.headers.get('Content-Range')).toBe('bytes 2-4/10');
+		expect(start.headers.get('Content-Length')).toBe('3');
+		expect(await start.text()).toBe('234');
+		expect(await suffix.text()).toBe('789');
+	});
+
+	test('serves several ranges as multipart/byteranges, merging overlaps', async () => {
+		const response = serve({ Range: 'bytes=0-1, 1-2, 7-' });
+		const contentType = response.headers.get('Content-Type')!;
+		const boundary = contentType.split('boundary=')[1];
+
+		expect(response.status).toBe(206);
+		expect(contentType).toStartWith('multipart/byteranges; boundary=');
+		expect(await response.text()).toBe(
+			`--${boundary}\r\nContent-Type: text/plain\r\nContent-Range: bytes 0-2/10\r\n\r\n012\r\n` +
+				`--${boundary}\r\nContent-Type: text/plain\r\nContent-Range: bytes 7-9/10\r\n\r\n789\r\n` +
+				`--${boundary}--\r\n`
+		);
+	});
+
+	test('answers 416 when no range can be satisfied', () => {
+		const response = serve({ Range: 'bytes=20-30' });
+
+		expect(response.status).toBe(416);
+		expect(response.headers.get('Content-Range')).toBe('bytes */10');
+	});
+
+	test('sends the whole file for malformed or stale ranges', async () => {
+		expect(serve({ Range: 'bytes=5-2' }).status).toBe(200);
+		expect(serve({ Range: 'items=0-1' }).status).toBe(200);
+
+		const stale = serve({ Range: 'bytes=0-1', 'If-Range': '"old"' });
+		const fresh = serve({
+			Range: 'bytes=0-1',
+			'If-Range': serve().headers.get('ETag')!,
+		});
+
+		expect(stale.status).toBe(200);
+		expect(await stale.text()).toBe('0123456789');
+		expect(fresh.status).toBe(206);
+	});
+
+	test('gives HEAD requests the headers of the GET', () => {
+		const whole = serve({}, 'HEAD');
+		const range = serve({ Range: 'bytes=0-3' }, 'HEAD');
+
+		expect(whole.body).toBeNull();
+		expect(whole.headers.get('Content-Length')).toBe('10');
+		expect(range.status).toBe(206);
+		expect(range.headers.get('Content-Length')).toBe('4');
+	});
+});
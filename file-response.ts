@@ -0,0 +1,167 @@
+import { isNotModified } from './response';
+
+/**
+ * A file to serve: a `Bun.file()`, or any Blob with a modification time. A
+ * precomputed strong `etag` is used instead of the size/mtime one.
+ */
+export type ServableFile = Blob & { lastModified: number; etag?: string };
+
+type ByteRange = { start: number; end: number };
+
+// More ranges than this in one request is treated as abuse and served in full
+const MAX_RANGES = 50;
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Parses a `Range: bytes=...` header against a body of `size` bytes.
+ * @returns the satisfiable ranges (empty when none are), or null when the header
+ *   is malformed or not worth honouring, in which case the whole file is sent
+ */
+function parseRange(header: string, size: number): ByteRange[] | null {
+	const match = /^bytes=(.+)$/i.exec(header.trim());
+	if (!match) return null;
+
+	const ranges: ByteRange[] = [];
+	for (const spec of match[1]!.split(',')) {
+		const parts = /^\s*(\d*)-(\d*)\s*$/.exec(spec);
+		if (!parts || (parts[1] === '' && parts[2] === '')) return null;
+
+		let start: number;
+		let end: number;
+		if (parts[1] === '') {
+			// Suffix range: the last N bytes
+			start = Math.max(size - Number(parts[2]), 0);
+			end = size - 1;
+		} else {
+			start = Number(parts[1]);
+			if (parts[2] !== '' && Number(parts[2]) < start) return null;
+			end = parts[2] === '' ? size - 1 : Math.min(Number(parts[2]), size - 1);
+		}
+
+		if (start < size && end >= start) {
+			ranges.push({ start, end });
+		}
+	}
+
+	if (ranges.length > MAX_RANGES) return null;
+	return coalesceRanges(ranges);
+}
+
+/** Merges overlapping and adjacent ranges so no byte is sent twice. */
+function coalesceRanges(ranges: ByteRange[]): ByteRange[] {
+	const sorted = [...ranges].sort((a, b) => a.start - b.start);
+	const merged: ByteRange[] = [];
+	for (const range of sorted) {
+		const last = merged[merged.length - 1];
+		if (last && range.start <= last.end + 1) {
+			last.end = Math.max(last.end, range.end);
+		} else {
+			merged.push({ ...range });
+		}
+	}
+	return merged;
+}
+
+/**
+ * `If-Range` makes a Range request conditional: the range is only honoured if
+ * the file still matches the given strong ETag or modification date.
+ */
+function isRangeFresh(request: Request, headers: Headers): boolean {
+	const ifRange = request.headers.get('If-Range');
+	if (!ifRange) return true;
+
+	if (ifRange.startsWith('"') || ifRange.startsWith('W/')) {
+		const etag = headers.get('ETag');
+		return !ifRange.startsWith('W/') && etag !== null && etag === ifRange;
+	}
+
+	const lastModified = Date.parse(headers.get('Last-Modified') ?? '');
+	return !isNaN(lastModified) && lastModified === Date.parse(ifRange);
+}
+
+function multipartByteRanges(
+	file: Blob,
+	ranges: ByteRange[],
+	contentType: string
+): { body: Blob; boundary: string } {
+	const boundary = `bun-server-${crypto.randomUUID()}`;
+	const parts: Array<string | Blob> = [];
+	for (const { start, end } of ranges) {
+		parts.push(
+			`--${boundary}\r\n` +
+				`Content-Type: ${contentType}\r\n` +
+				`Content-Range: bytes ${start}-${end}/${file.size}\r\n\r\n`,
+			file.slice(start, end + 1),
+			'\r\n'
+		);
+	}
+	parts.push(`--${boundary}--\r\n`);
+	return { body: new Blob(parts), boundary };
+}
+
+// ─── Public helpers ───────────────────────────────────────────────────────────
+
+/**
+ * Builds the response for a static file with `ETag`, `Last-Modified` and
+ * `Accept-Ranges` headers. Handles conditional requests (304), single and
+ * multiple byte ranges (206, or 416 when none can be satisfied), and HEAD
+ * requests, which get the headers of the matching GET with no body.
+ */
+export function createFileResponse(
+	request: Request,
+	file: ServableFile,
+	headers: Headers
+): Response {
+	const isHead = request.method === 'HEAD';
+	const size = file.size;
+
+	headers.set('Accept-Ranges', 'bytes');
+	headers.set(
+		'ETag',
+		file.etag ??
+			`"${size.toString(16)}-${Math.floor(file.lastModified).toString(16)}"`
+	);
+	headers.set('Last-Modified', new Date(file.lastModified).toUTCString());
+
+	if (isNotModified(request, headers)) {
+		headers.delete('Content-Type');
+		return new Response(null, { status: 304, headers });
+	}
+
+	const rangeHeader = request.headers.get('Range');
+	const ranges =
+		rangeHeader && isRangeFresh(request, headers)
+			? parseRange(rangeHeader, size)
+			: null;
+
+	if (ranges && ranges.length === 0) {
+		headers.set('Content-Range', `bytes */${size}`);
+		headers.delete('Content-Type');
+		return new Response(null, { status: 416, headers });
+	}
+
+	if (ranges && ranges.length === 1) {
+		const { start, end } = ranges[0]!;
+		headers.set('Content-Range', `bytes ${start}-${end}/${size}`);
+		headers.set('Content-Length', String(end - start + 1));
+		return new Response(isHead ? null : file.slice(start, end + 1), {
+			status: 206,
+			headers,
+		});
+	}
+
+	if (ranges) {
+		const { body, boundary } = multipartByteRanges(
+			file,
+			ranges,
+			headers.get('Content-Type') ?? 'application/octet-stream'
+		);
+		headers.set('Content-Type', `multipart/byteranges; boundary=${boundary}`);
+		headers.set('Content-Length', String(body.size));
+		return new Response(isHead ? null : body, { status: 206, headers });
+	}
+
+	headers.set('Content-Length', String(size));
+	return new Response(isHead ? null : file, { headers });
+}
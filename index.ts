@@ -1,4 +1,4 @@
-import { type BodyInit, type ServerWebSocket } from 'bun';
+import { type ServerWebSocket } from 'bun';
 import path from 'path';
 import type {
 	ErrorHandler,
@@ -7,21 +7,107 @@ import type {
 	RequestHandler,
 	ValidMethods,
 	WebSocketConfig,
-	ResponseHandler,
 	ModifiedServerWebSocket,
-	CookieOptions,
 	PublicDirectoryOptions,
+	AssetManifest,
+	PrecompressedEncoding,
 	MCPConfig,
 	TLSConfig,
+	CorsOptions,
+	SessionOptions,
+	MultipartOptions,
+	CompressionOptions,
+	OpenAPIOptions,
+	BunRouter,
+	PathParams,
+	PreRequestHandler,
+	RouterOptions,
+	RouteMeta,
+	Middleware,
+	Logger,
+	AccessLogEntry,
+	WafRule,
+	WafBanOptions,
+	TrustProxy,
+	RateLimitOptions,
 } from './server-types';
 import { createMcpHttpHandler, runMcpStdio } from './mcp';
-import { WAF_COMMON_RULES, matchesWafRule } from './waf';
+import {
+	WAF_COMMON_RULES,
+	createWafBans,
+	createWafCounters,
+	createWafResponse,
+	inspectRequest,
+} from './waf';
+import { createClientIpResolver } from './proxy';
+import {
+	DEFAULT_BLOCKED_PATTERNS,
+	getContentType,
+	isFileBlocked,
+} from './static-files';
+import {
+	RATE_LIMIT_HEADERS,
+	createRateLimiter,
+	createWebSocketRateLimiter,
+	enforceRateLimit,
+	pickRateLimitResult,
+	setRateLimitHeaders,
+	withClientIp,
+	type RateLimiter,
+	type RateLimitResult,
+} from './ratelimit';
+import {
+	createRouteTree,
+	createRouter,
+	findErrorHandler,
+	getRouterScope,
+	mergeScopeHeaders,
+	runMiddleware,
+	runPreRequestHandlers,
+	subscribeToRoutes,
+	type RouteDefinition,
+	type RouteEntry,
+	type RouteScope,
+} from './router';
+import { createOpenAPIDocument } from './openapi';
+import { parseRequestBody, resolveBodyLimit } from './body';
+import { removeUploadedFiles } from './multipart';
+import { createResponseHandler } from './response';
+import { compressResponse, negotiateEncoding } from './compression';
+import { createFileResponse, type ServableFile } from './file-response';
+import { createCookieSigner } from './cookies';
+import { createSessionManager, type SessionHandle } from './session';
+import { createEmbeddedFiles, type EmbeddedFile } from './assets';
+import { BunServerError, NotFoundError, createProblemResponse } from './errors';
+import { createJsonLogger, logAccess, resolveRequestId } from './logging';
+import {
+	appendVary,
+	applyCorsHeaders,
+	createPreflightResponse,
+	findCorsOptions,
+	isPreflightRequest,
+} from './cors';
 
 export type * from './server-types';
 export { createTestServer } from './bun-test-server';
 export type { TestRequestOptions, TestResponse } from './bun-test-server';
 export { MCP_PROTOCOL_VERSION } from './mcp';
-export { WAF_COMMON_RULES } from './waf';
+export { WAF_BODY_RULES, WAF_COMMON_RULES, createMemoryWafStore } from './waf';
+export { createRouter } from './router';
+export { buildAssetManifest } from './assets';
+export { createMemorySessionStore, createSqliteSessionStore } from './session';
+export { createMemoryRateLimitStore, createSqliteRateLimitStore } from './ratelimit';
+export {
+	BunServerError,
+	BadRequestError,
+	UnauthorizedError,
+	ForbiddenError,
+	NotFoundError,
+	ConflictError,
+	TooManyRequestsError,
+	ValidationError,
+	createProblemResponse,
+} from './errors';
 export type { WafRule } from './waf';
 
 /*
@@ -50,36 +136,6 @@ function validateMethod(method: string): method is ValidMethods {
 	].includes(method);
 }
 
-export class BunServerError extends Error {
-	public params: Record<string, string> = {};
-	constructor(
-		message: string,
-		public status: number,
-		params?: Record<string, string>
-	) {
-		super(message);
-		if (params) {
-			this.params = params;
-		}
-	}
-}
-
-// Security: Default patterns to block from being served
-const DEFAULT_BLOCKED_PATTERNS = [
-	'.env',
-	'.env.local',
-	'.env.production',
-	'.env.development',
-	'.git/',
-	'.gitignore',
-	'.npmrc',
-	'.DS_Store',
-	'package-lock.json',
-	'yarn.lock',
-	'pnpm-lock.yaml',
-	'bun.lockb',
-];
-
 // Security: Default secure headers for static files
 const SECURE_DEFAULT_HEADERS = {
 	'X-Content-Type-Options': 'nosniff',
@@ -132,51 +188,34 @@ function getSafePath(requestedPath: string, publicDir: string): string | null {
 }
 
 /**
- * Checks if a file path matches any blocked patterns
+ * Normalizes a public directory mount path to `/prefix` form, or `''` for the root
  */
-function isFileBlocked(filePath: string, blockedPatterns: string[]): boolean {
-	const normalizedPath = filePath.toLowerCase();
-	return blockedPatterns.some(pattern => {
-		const normalizedPattern = pattern.toLowerCase();
-		// Check if pattern is in the path
-		return normalizedPath.includes(normalizedPattern);
-	});
+function normalizeMountPath(mountPath: string = '/'): string {
+	const trimmed = mountPath.replace(/^\/+|\/+$/g, '');
+	return trimmed ? `/${trimmed}` : '';
 }
 
 /**
- * Gets the appropriate Content-Type header based on file extension
+ * Strips a directory's mount path from the request path
+ * @returns the path relative to the mount, or null if the request is outside it
  */
-function getContentType(filePath: string): string {
-	const ext = path.extname(filePath).toLowerCase();
-	const contentTypes: Record<string, string> = {
-		'.html': 'text/html; charset=utf-8',
-		'.css': 'text/css; charset=utf-8',
-		'.js': 'application/javascript; charset=utf-8',
-		'.json': 'application/json; charset=utf-8',
-		'.png': 'image/png',
-		'.jpg': 'image/jpeg',
-		'.jpeg': 'image/jpeg',
-		'.gif': 'image/gif',
-		'.svg': 'image/svg+xml',
-		'.ico': 'image/x-icon',
-		'.webp': 'image/webp',
-		'.woff': 'font/woff',
-		'.woff2': 'font/woff2',
-		'.ttf': 'font/ttf',
-		'.eot': 'application/vnd.ms-fontobject',
-		'.pdf': 'application/pdf',
-		'.txt': 'text/plain; charset=utf-8',
-		'.xml': 'application/xml; charset=utf-8',
-		'.mp4': 'video/mp4',
-		'.webm': 'video/webm',
-		'.mp3': 'audio/mpeg',
-		'.wav': 'audio/wav',
-		'.zip': 'application/zip',
-	};
-
-	return contentTypes[ext] || 'application/octet-stream';
+function stripMountPath(requestPath: string, mountPath: string): string | null {
+	if (!mountPath) {
+		return requestPath;
+	}
+	if (requestPath === mountPath) {
+		return '/';
+	}
+	return requestPath.startsWith(`${mountPath}/`) ? requestPath.slice(mountPath.length) : null;
 }
 
+const PRECOMPRESSED_ENCODINGS: PrecompressedEncoding[] = ['br', 'gzip'];
+
+const PRECOMPRESSED_EXTENSIONS: Record<PrecompressedEncoding, string> = {
+	br: '.br',
+	gzip: '.gz',
+};
+
 /**
  * Warns about security header overrides
  */
@@ -187,7 +226,42 @@ function warnSecurityOverride(headerName: string, publicDir: string): void {
 	);
 }
 
-// todo CORS SUPPORT
+/** A directory on disk, or an embedded asset bundle, registered for static serving. */
+type PublicDirectory = {
+	/** Absolute directory path, or `/` for embedded assets */
+	dir: string;
+	mountPath: string;
+	options: PublicDirectoryOptions;
+	/** Embedded files by URL path, looked up instead of reading `dir` */
+	assets?: Map<string, EmbeddedFile>;
+};
+
+/** A file found in a public directory; `name` is its path on disk or in the bundle. */
+type PublicFile = ServableFile & { name?: string };
+
+/** Per-request state shared between `handleRequest` and the response post-processing. */
+type RequestContext<StateType> = {
+	/** Scopes of the matched route; decides which error handler and CORS policy apply. */
+	scopes: RouteScope<StateType>[];
+	/** Headers to expose to browsers on top of the CORS policy's own. */
+	exposedHeaders?: string[];
+	/** The request's session, saved once the response is ready. */
+	session?: SessionHandle;
+	requestId: string;
+	/** The client's address, resolved through `trustProxy`. */
+	ip: string | null;
+	/** What handled the request, for the access log. */
+	event?: AccessLogEntry['event'];
+	/** Key of the matched route, for the access log. */
+	route?: string;
+	/** WAF rules the request matched, for the access log. */
+	waf?: AccessLogEntry['waf'];
+	/** The error behind an error response, for the access log. */
+	error?: unknown;
+	/** The tightest rate limit the request was counted against, for the response headers. */
+	rateLimit?: RateLimitResult;
+};
+
 export function createServer<ProvidedState extends object>({
 	port,
 	webSocket,
@@ -198,9 +272,26 @@ export function createServer<ProvidedState extends object>({
 	},
 	debug = false,
 	globalHeaders = {},
+	cors,
+	openapi,
+	maxBodySize,
+	maxMultipartBodySize,
+	multipart,
+	etag = true,
+	compression,
+	cookieSecrets,
+	session,
+	includeErrorStack = process.env.NODE_ENV === 'development',
+	accessLog = false,
+	requestIdHeader = 'X-Request-Id',
 	idleTimeout,
 	enableWaf = false,
 	wafOverrides,
+	wafDryRun = false,
+	onWafBlock,
+	wafBans,
+	trustProxy = false,
+	rateLimit,
 	allowedRedirectHosts,
 }: {
 	port: number;
@@ -209,11 +300,72 @@ export function createServer<ProvidedState extends object>({
 	tls?: TLSConfig;
 	state?: () => ProvidedState;
 	globalHeaders?: Record<string, any>;
+	/**
+	 * CORS policy for every response: routes, static files, MCP and errors.
+	 * Route groups can override it with their own `cors` option.
+	 * Preflight requests are answered automatically from the registered methods.
+	 */
+	cors?: CorsOptions;
+	/**
+	 * Describes the API in the generated OpenAPI document. Set `path` to also
+	 * serve the document, e.g. at `/openapi.json`.
+	 */
+	openapi?: OpenAPIOptions;
+	/**
+	 * Largest request body accepted, in bytes. Bigger bodies fail with a 413
+	 * BunServerError, sent through `onError`. Routes can set their own limit.
+	 */
+	maxBodySize?: number;
+	/** Largest `multipart/form-data` body accepted, in bytes. Falls back to `maxBodySize`. */
+	maxMultipartBodySize?: number;
+	/**
+	 * Limits and file handling for `multipart/form-data` uploads. Routes can
+	 * override them with their own `multipart` option.
+	 */
+	multipart?: MultipartOptions;
+	/**
+	 * Add weak ETags to string and JSON responses so clients can revalidate with
+	 * `If-None-Match` and get a 304. Routes can always set their own with `res.setETag`.
+	 * @default true
+	 */
+	etag?: boolean;
+	/**
+	 * Compress route responses, static files and errors with the best encoding in
+	 * `Accept-Encoding`. `true` uses the defaults.
+	 */
+	compression?: boolean | CompressionOptions;
+	/**
+	 * Secrets for signed and encrypted cookies. The first one protects new cookies
+	 * and all of them are accepted, so rotate by adding the new secret in front.
+	 */
+	cookieSecrets?: string[];
+	/** Enables `req.session`, with sessions kept in `store` (in memory by default). */
+	session?: SessionOptions;
+	/**
+	 * Add stack traces, and the messages of unexpected errors, to the problem+json
+	 * responses sent when no `onError` handler is registered. Keep it off in production.
+	 * @default process.env.NODE_ENV === 'development'
+	 */
+	includeErrorStack?: boolean;
+	/**
+	 * Log one entry per request once its response is sent, including WAF blocks,
+	 * MCP calls and WebSocket upgrades. `true` writes JSON lines to stdout; pass a
+	 * `Logger` to send entries somewhere else.
+	 * @default false
+	 */
+	accessLog?: boolean | Logger;
+	/**
+	 * Header a request id is read from, when the client sent a usable one, and
+	 * echoed on every response. `false` always generates ids and never sends them.
+	 * @default 'X-Request-Id'
+	 */
+	requestIdHeader?: string | false;
 	debug?: boolean;
 	idleTimeout?: number;
 	/**
 	 * Enable the built-in WAF (Web Application Firewall).
-	 * When true, requests matching known scanner/exploit paths are rejected with 404
+	 * When true, requests matching known scanner and exploit paths, methods, user
+	 * agents, query strings or bodies are rejected (by default with a bare 404)
 	 * before hitting any route logic. Uses WAF_COMMON_RULES by default.
 	 * @experimental
 	 */
@@ -225,7 +377,38 @@ export function createServer<ProvidedState extends object>({
 	 * wafOverrides: [...WAF_COMMON_RULES, { pattern: '/secret', description: 'custom' }]
 	 * @experimental
 	 */
-	wafOverrides?: import('./server-types').WafRule[];
+	wafOverrides?: WafRule[];
+	/**
+	 * Report-only mode: requests that would be blocked or tarpitted are let
+	 * through and logged instead, so a ruleset can be tried out in production.
+	 * @experimental
+	 */
+	wafDryRun?: boolean;
+	/**
+	 * Called when the WAF blocks or tarpits a request, with the rule that matched,
+	 * e.g. to raise an alert. It does not delay the response. Not called in dry-run mode.
+	 * @experimental
+	 */
+	onWafBlock?: (request: Request, rule: WafRule) => void | Promise<void>;
+	/**
+	 * Keep an anomaly score per client: every rule a request matches adds its
+	 * `score`, and clients that reach the threshold are refused for a while.
+	 * `true` uses the defaults and an in-memory store.
+	 * @experimental
+	 */
+	wafBans?: boolean | WafBanOptions;
+	/**
+	 * Proxies trusted to report the client address in `X-Forwarded-For`, used for
+	 * `req.ip`, access logs and WAF bans. Only enable it behind proxies that set the header.
+	 * @default false
+	 */
+	trustProxy?: TrustProxy;
+	/**
+	 * Limits requests to every route, static file and the MCP endpoint, counted per
+	 * client address by default. Requests over the limit fail with a 429
+	 * `TooManyRequestsError` through `onError`; responses carry `RateLimit-*` headers.
+	 */
+	rateLimit?: RateLimitOptions;
 	/**
 	 * Allowlist of hostnames that redirect() may send users to.
 	 * Absolute-URL redirects to hosts not in this list are blocked with 403.
@@ -233,30 +416,52 @@ export function createServer<ProvidedState extends object>({
 	 */
 	allowedRedirectHosts?: string[];
 }): BunServer<ProvidedState> {
-	const registeredMethods: Record<
-		ValidMethods,
-		Record<string, HandlerFunc<ProvidedState>>
-	> = {
-		GET: {},
-		POST: {},
-		PUT: {},
-		PATCH: {},
-		DELETE: {},
-		OPTIONS: {},
-		HEAD: {},
-		CONNECT: {},
-		TRACE: {},
-	};
+	const routes = createRouteTree<RouteEntry<ProvidedState>>();
+	const rootRouter = createRouter<ProvidedState>({ globalHeaders, cors });
+	const rootScope = getRouterScope(rootRouter);
+	const routeDefinitions: RouteDefinition<ProvidedState>[] = [];
+	const routeLimiters = new Map<RouteEntry<ProvidedState>, RateLimiter>();
+	subscribeToRoutes(rootRouter, (definition) => {
+		const { method, path, handler, scopes, meta } = definition;
+		const entry = { handler, scopes, meta };
+		routes.add(method, path, entry);
+		if (meta?.rateLimit) {
+			routeLimiters.set(entry, createRateLimiter(meta.rateLimit, `${method} ${path}`));
+		}
+		routeDefinitions.push(definition);
+	});
+
+	const cookieSigner = cookieSecrets ? createCookieSigner(cookieSecrets) : undefined;
+	const accessLogger = accessLog === true ? createJsonLogger() : accessLog || undefined;
+	const wafRules = wafOverrides ?? WAF_COMMON_RULES;
+	const wafCounters = createWafCounters(wafRules);
+	const bans = wafBans ? createWafBans(wafBans === true ? {} : wafBans) : undefined;
+	const resolveClientIp = createClientIpResolver(trustProxy);
+	const globalLimiter = rateLimit ? createRateLimiter(rateLimit, 'global') : undefined;
+	const allowWebSocketMessage = webSocket?.rateLimit
+		? createWebSocketRateLimiter(webSocket.rateLimit)
+		: undefined;
+	// Sockets only know their connecting address, so the resolved one is kept at upgrade
+	const countsWebSocketByIp = webSocket?.rateLimit?.key === 'ip';
+	const sessions = session ? createSessionManager(session, cookieSigner) : undefined;
+
+	function getOpenAPIDocument() {
+		return createOpenAPIDocument(
+			routeDefinitions,
+			openapi ?? { info: { title: 'API', version: '1.0.0' } }
+		);
+	}
+
+	if (openapi?.path) {
+		rootRouter.get(openapi.path, (req, res) => res.send(getOpenAPIDocument()), {
+			hidden: true,
+		});
+	}
 
-	const PUBLIC_DIRECTORIES: Array<{
-		dir: string;
-		options: PublicDirectoryOptions;
-	}> = [];
+	// Both lists are kept sorted by mount path, most specific first
+	const PUBLIC_DIRECTORIES: PublicDirectory[] = [];
 
-	const CATCHALL_DIRECTORIES: Array<{
-		dir: string;
-		options: PublicDirectoryOptions;
-	}> = [];
+	const CATCHALL_DIRECTORIES: PublicDirectory[] = [];
 
 	function logLine(...args: any[]) {
 		if (debug) {
@@ -264,69 +469,191 @@ export function createServer<ProvidedState extends object>({
 		}
 	}
 
-	function getMatchingPathKey(method: string, path: string): string | null {
-		if (!validateMethod(method)) {
-			logLine('invalid method', method);
-			return null;
+	/** Runs `onWafBlock` without holding up the response, reporting anything it throws. */
+	function notifyWafBlock(request: Request, rule: WafRule) {
+		try {
+			Promise.resolve(onWafBlock?.(request, rule)).catch((e) => {
+				console.error('[WAF] onWafBlock failed:', e);
+			});
+		} catch (e) {
+			console.error('[WAF] onWafBlock failed:', e);
+		}
+	}
+
+	/**
+	 * Runs the WAF over a request, returning the response for a blocked or banned
+	 * client and recording what matched on `context` for the access log.
+	 */
+	async function checkWaf(
+		request: Request,
+		url: URL,
+		context: RequestContext<ProvidedState>
+	): Promise<Response | null> {
+		// Scores and bans are only kept when they are enforced
+		const scoredIp = bans && !wafDryRun ? context.ip : null;
+		if (scoredIp && (await bans!.isBanned(scoredIp))) {
+			wafCounters.recordBanned();
+			context.event = 'waf';
+			context.waf = { action: 'ban', rules: [] };
+			return new Response(null, { status: bans!.status });
 		}
 
-		// options validates on it's own
-		if (method === 'OPTIONS') {
-			return path;
+		const verdict = await inspectRequest(request, url, wafRules);
+		const blocked = verdict.action !== null && !wafDryRun;
+		wafCounters.record(verdict, blocked);
+		if (verdict.matches.length === 0) {
+			return null;
 		}
 
-		// Exact match
-		if (registeredMethods[method][path]) return path;
-		logLine('no exact matched path found', path);
+		const nowBanned = scoredIp ? await bans!.addScore(scoredIp, verdict.matches) : false;
+		context.waf = {
+			action: nowBanned ? 'ban' : (verdict.action?.type ?? 'log'),
+			rules: verdict.matches.map((rule) => rule.description),
+			...(verdict.action && wafDryRun && { dryRun: true as const }),
+		};
 
-		// Parameterized match (e.g., /foo/:id)
-		const keys = Object.keys(registeredMethods[method]).filter((k) =>
-			k.split('/').some((el) => el.startsWith(':'))
-		);
+		if (blocked) {
+			logLine('[WAF] blocked:', url.pathname, context.waf.rules);
+			context.event = 'waf';
+			if (onWafBlock) {
+				// The rule that blocked is the last one matched
+				notifyWafBlock(request, verdict.matches[verdict.matches.length - 1]!);
+			}
+			return await createWafResponse(verdict.action!);
+		}
+		if (nowBanned) {
+			logLine('[WAF] banned:', scoredIp);
+			wafCounters.recordBanned();
+			context.event = 'waf';
+			return new Response(null, { status: bans!.status });
+		}
+		return null;
+	}
 
-		const parts = path.split('/').filter((p) => p);
-		logLine('key search', keys, parts);
+	/** Counts the request against `limiter`, throwing a 429 when it's over the limit. */
+	async function checkRateLimit(
+		limiter: RateLimiter,
+		options: RateLimitOptions,
+		request: Request,
+		context: RequestContext<ProvidedState>
+	) {
+		await enforceRateLimit(limiter, options, request, context.ip, (result) => {
+			context.rateLimit = pickRateLimitResult(context.rateLimit, result);
+		});
+	}
 
-		for (const key of keys) {
-			const keyParts = key.split('/').filter((p) => p);
-			if (keyParts.length !== parts.length) continue;
+	/** Picks the Cache-Control header for a public file from its directory's options. */
+	function getCacheControl(
+		filePath: string,
+		options: PublicDirectoryOptions
+	): string | undefined {
+		const { immutable, cacheControl } = options;
+		const isImmutable =
+			immutable instanceof RegExp ? immutable.test(path.basename(filePath)) : immutable;
+		if (isImmutable) {
+			return 'public, max-age=31536000, immutable';
+		}
+		return typeof cacheControl === 'function' ? cacheControl(filePath) : cacheControl;
+	}
 
-			if (keyParts.every((kp, idx) => kp.startsWith(':') || kp === parts[idx])) {
-				return key;
-			}
+	/**
+	 * Builds the response for a public file, with cache validators and Range support.
+	 * With `precompressed`, a `.br` or `.gz` sibling is sent instead when the client
+	 * accepts that encoding.
+	 */
+	async function fileResponse(
+		request: Request,
+		file: PublicFile,
+		headers: Headers,
+		publicDir: PublicDirectory
+	): Promise<Response> {
+		const { options } = publicDir;
+		const cacheControl = getCacheControl(file.name!, options);
+		if (cacheControl && !headers.has('Cache-Control')) {
+			headers.set('Cache-Control', cacheControl);
 		}
 
-		// Wildcard support (e.g., /foo/* should match /foo/bar/baz)
-		const wildcardKeys = Object.keys(registeredMethods[method]).filter((k) =>
-			k.endsWith('/*')
-		);
-		for (const wildcardKey of wildcardKeys) {
-			if (path.startsWith(wildcardKey.replace('/*', ''))) {
-				return wildcardKey;
+		if (options.precompressed) {
+			appendVary(headers, 'Accept-Encoding');
+			const acceptEncoding = request.headers.get('Accept-Encoding') ?? '';
+			let encodings =
+				options.precompressed === true ? PRECOMPRESSED_ENCODINGS : options.precompressed;
+
+			// Fall back to the next accepted encoding when a sibling is missing
+			let encoding = negotiateEncoding(acceptEncoding, encodings);
+			while (encoding) {
+				const variant = await openPublicFile(
+					publicDir,
+					file.name + PRECOMPRESSED_EXTENSIONS[encoding]
+				);
+				if (variant) {
+					logLine('Serving precompressed file:', variant.name);
+					headers.set('Content-Encoding', encoding);
+					return createFileResponse(request, variant, headers);
+				}
+				encodings = encodings.filter((e) => e !== encoding);
+				encoding = negotiateEncoding(acceptEncoding, encodings);
 			}
 		}
 
-		return null;
+		return createFileResponse(request, file, headers);
 	}
 
-	function getParamsFromPath(
-		pathKey: string,
-		path: string
-	): Record<string, string> {
-		const pathParts = path.split('/').filter(Boolean);
-		const keyParts = pathKey.split('/').filter(Boolean);
-
-		const params: Record<string, string> = {};
+	/**
+	 * Returns the file at `safePath`, or failing that, the first match with one of
+	 * the directory's fallback `extensions` appended (`/about` → `about.html`).
+	 */
+	async function findPublicFile(
+		safePath: string,
+		publicDir: PublicDirectory
+	): Promise<PublicFile | null> {
+		const { options } = publicDir;
+		const candidates = [safePath];
+		if (options.extensions && !path.extname(safePath)) {
+			for (const ext of options.extensions) {
+				const candidate = `${safePath}.${ext.replace(/^\./, '')}`;
+				// The requested path was checked by the caller, fallbacks are checked here
+				if (!options.allowAllFiles && isFileBlocked(candidate, options.blockPatterns || [])) {
+					logLine('Blocked file access attempt:', candidate);
+					continue;
+				}
+				candidates.push(candidate);
+			}
+		}
 
-		for (let i = 0; i < keyParts.length; i++) {
-			const keyPart = keyParts[i]!;
-			if (keyPart.startsWith(':')) {
-				const paramName = keyPart.slice(1);
-				params[paramName] = pathParts[i] ?? '';
+		for (const candidate of candidates) {
+			logLine('Attempting to serve file:', candidate);
+			const file = await openPublicFile(publicDir, candidate);
+			if (file) {
+				return file;
 			}
 		}
+		return null;
+	}
+
+	/**
+	 * Looks up `filePath` in a directory's embedded assets, or on disk
+	 */
+	async function openPublicFile(
+		publicDir: PublicDirectory,
+		filePath: string
+	): Promise<PublicFile | null> {
+		if (publicDir.assets) {
+			return publicDir.assets.get(filePath) ?? null;
+		}
+		const file = Bun.file(filePath);
+		return (await file.exists()) ? file : null;
+	}
 
-		return params;
+	/**
+	 * Checks whether `path` falls under a directory mounted deeper than `mountPath`
+	 */
+	function hasNestedMount(path: string, mountPath: string): boolean {
+		return [...PUBLIC_DIRECTORIES, ...CATCHALL_DIRECTORIES].some(
+			(publicDir) =>
+				publicDir.mountPath.length > mountPath.length &&
+				stripMountPath(path, publicDir.mountPath) !== null
+		);
 	}
 
 	/**
@@ -335,10 +662,15 @@ export function createServer<ProvidedState extends object>({
 	 */
 	async function tryServePublicFile(
 		path: string,
-		directories: typeof PUBLIC_DIRECTORIES
+		directories: typeof PUBLIC_DIRECTORIES,
+		request: Request
 	): Promise<Response | null> {
 		for (const publicDir of directories) {
-			const requestedPath = path === '/' ? '/index.html' : path;
+			const relativePath = stripMountPath(path, publicDir.mountPath);
+			if (relativePath === null) {
+				continue;
+			}
+			const requestedPath = relativePath === '/' ? '/index.html' : relativePath;
 
 			// Security: Validate and normalize the path
 			const safePath = getSafePath(requestedPath, publicDir.dir);
@@ -355,10 +687,9 @@ export function createServer<ProvidedState extends object>({
 				}
 			}
 
-			const file = Bun.file(safePath);
-			logLine('Attempting to serve file:', safePath);
+			const file = await findPublicFile(safePath, publicDir);
 
-			if (await file.exists()) {
+			if (file) {
 				// Build headers with secure defaults + custom headers
 				const headers = new Headers({
 					...SECURE_DEFAULT_HEADERS,
@@ -367,18 +698,23 @@ export function createServer<ProvidedState extends object>({
 				});
 
 				// Set Content-Type based on file extension
-				const contentType = getContentType(safePath);
+				const contentType = getContentType(
+					file.name!,
+					publicDir.options.mimeTypes,
+					publicDir.assets && file.type
+				);
 				headers.set('Content-Type', contentType);
 
-				return new Response(file, { headers });
+				return fileResponse(request, file, headers, publicDir);
 			}
 
-			// SPA mode: if file not found and spaMode is enabled, serve index.html
-			if (publicDir.options.spaMode) {
+			// SPA mode: if file not found and spaMode is enabled, serve index.html,
+			// leaving paths under a nested mount to that mount
+			if (publicDir.options.spaMode && !hasNestedMount(path, publicDir.mountPath)) {
 				const indexPath = getSafePath('/index.html', publicDir.dir);
 				if (indexPath) {
-					const indexFile = Bun.file(indexPath);
-					if (await indexFile.exists()) {
+					const indexFile = await openPublicFile(publicDir, indexPath);
+					if (indexFile) {
 						logLine('SPA mode: serving index.html for', path);
 						const headers = new Headers({
 							...SECURE_DEFAULT_HEADERS,
@@ -387,7 +723,7 @@ export function createServer<ProvidedState extends object>({
 							'Content-Type': 'text/html; charset=utf-8',
 						});
 
-						return new Response(indexFile, { headers });
+						return fileResponse(request, indexFile, headers, publicDir);
 					}
 				}
 			}
@@ -396,6 +732,71 @@ export function createServer<ProvidedState extends object>({
 		return null;
 	}
 
+	/**
+	 * Registers a public directory, or with `assets`, an embedded bundle served from
+	 * the virtual root `/`
+	 * @param label - how the directory is named in logs and warnings
+	 */
+	function registerPublicDirectory(
+		dir: string,
+		label: string,
+		options: PublicDirectoryOptions,
+		assets?: Map<string, EmbeddedFile>
+	) {
+		const fallbackMode = options.fallbackMode || 'priority';
+		const mountPath = normalizeMountPath(options.mountPath);
+
+		logLine(
+			'adding public directory',
+			label,
+			'at',
+			mountPath || '/',
+			'with mode',
+			fallbackMode
+		);
+
+		// Warn about security overrides
+		if (options.headers) {
+			for (const headerName of Object.keys(SECURE_DEFAULT_HEADERS)) {
+				if (options.headers[headerName]) {
+					warnSecurityOverride(headerName, label);
+				}
+			}
+		}
+
+		if (options.allowAllFiles) {
+			console.warn(
+				`[SECURITY WARNING] allowAllFiles enabled for public directory: ${label}\n` +
+				`This disables protection against serving sensitive files. Use with caution.`
+			);
+		}
+
+		const publicDirConfig: PublicDirectory = {
+			dir,
+			mountPath,
+			assets,
+			options: {
+				headers: options.headers || {},
+				blockPatterns: options.blockPatterns || DEFAULT_BLOCKED_PATTERNS,
+				allowAllFiles: options.allowAllFiles || false,
+				fallbackMode,
+				spaMode: options.spaMode || false,
+				cacheControl: options.cacheControl,
+				immutable: options.immutable,
+				precompressed: options.precompressed,
+				mimeTypes: options.mimeTypes,
+				extensions: options.extensions,
+			},
+		};
+
+		const directories =
+			fallbackMode === 'catchall' ? CATCHALL_DIRECTORIES : PUBLIC_DIRECTORIES;
+		directories.push(publicDirConfig);
+		// A nested mount must be tried before a parent mount's SPA fallback claims its paths.
+		// The sort is stable, so directories on the same mount keep their registration order.
+		directories.sort((a, b) => b.mountPath.length - a.mountPath.length);
+	}
+
 	// Set up MCP HTTP handler if configured for HTTP mode
 	const mcpHttpHandler =
 		mcp && (mcp.mode === 'http' || mcp.mode === undefined)
@@ -403,13 +804,6 @@ export function createServer<ProvidedState extends object>({
 			: null;
 	const mcpPath = mcp?.path ?? '/mcp';
 
-	let _errorHandler: ErrorHandler | null = null;
-	const _preRequestHandlers: Array<
-		(
-			req: RequestHandler<ProvidedState>
-		) => boolean | Response | Promise<boolean | Response>
-	> = [];
-
 	// makes it a lil easier from a type perspective to send, as well as adding JSON support.
 	function GetModifiedServerWebsocket(
 		ws: ServerWebSocket<unknown>
@@ -435,80 +829,95 @@ export function createServer<ProvidedState extends object>({
 	}
 
 	const publicAPI: BunServer<ProvidedState> = {
-		get: function (path: string, handler: HandlerFunc<ProvidedState>) {
+		get: function <Path extends string>(
+			path: Path,
+			handler: HandlerFunc<ProvidedState, PathParams<Path>>,
+			meta?: RouteMeta
+		) {
 			logLine('adding get handler for ', `"${path}"`);
-			registeredMethods.GET[path] = handler;
+			rootRouter.get(path, handler, meta);
 		},
-		post: function (path: string, handler: HandlerFunc<ProvidedState>) {
+		post: function <Path extends string>(
+			path: Path,
+			handler: HandlerFunc<ProvidedState, PathParams<Path>>,
+			meta?: RouteMeta
+		) {
 			logLine('adding post handler for ', `"${path}"`);
-			registeredMethods.POST[path] = handler;
+			rootRouter.post(path, handler, meta);
 		},
-		put: function (path: string, handler: HandlerFunc<ProvidedState>) {
+		put: function <Path extends string>(
+			path: Path,
+			handler: HandlerFunc<ProvidedState, PathParams<Path>>,
+			meta?: RouteMeta
+		) {
 			logLine('adding put handler for ', `"${path}"`);
-			registeredMethods.PUT[path] = handler;
+			rootRouter.put(path, handler, meta);
 		},
-		delete: function (path: string, handler: HandlerFunc<ProvidedState>) {
+		delete: function <Path extends string>(
+			path: Path,
+			handler: HandlerFunc<ProvidedState, PathParams<Path>>,
+			meta?: RouteMeta
+		) {
 			logLine('adding delete handler for ', `"${path}"`);
-			registeredMethods.DELETE[path] = handler;
+			rootRouter.delete(path, handler, meta);
 		},
-		patch: function (path: string, handler: HandlerFunc<ProvidedState>) {
+		patch: function <Path extends string>(
+			path: Path,
+			handler: HandlerFunc<ProvidedState, PathParams<Path>>,
+			meta?: RouteMeta
+		) {
 			logLine('adding patch handler for ', `"${path}"`);
-			registeredMethods.PATCH[path] = handler;
+			rootRouter.patch(path, handler, meta);
 		},
-		options: function (path: string, handler: HandlerFunc<ProvidedState>) {
+		options: function <Path extends string>(
+			path: Path,
+			handler: HandlerFunc<ProvidedState, PathParams<Path>>,
+			meta?: RouteMeta
+		) {
 			logLine('adding options handler for ', `"${path}"`);
-			registeredMethods.OPTIONS[path] = handler;
+			rootRouter.options(path, handler, meta);
+		},
+		head: function <Path extends string>(
+			path: Path,
+			handler: HandlerFunc<ProvidedState, PathParams<Path>>,
+			meta?: RouteMeta
+		) {
+			logLine('adding head handler for ', `"${path}"`);
+			rootRouter.head(path, handler, meta);
 		},
 		onError: function (errorHandler: ErrorHandler) {
 			logLine('adding error handler');
-			_errorHandler = errorHandler;
+			rootRouter.onError(errorHandler);
+		},
+		group: function <Prefix extends string>(
+			prefix: Prefix,
+			configure: (router: BunRouter<ProvidedState, PathParams<Prefix>>) => void,
+			options?: RouterOptions
+		) {
+			logLine('adding route group', `"${prefix}"`);
+			return rootRouter.group(prefix, configure, options);
 		},
+		mount: function (prefix: string, router: BunRouter<ProvidedState, any>) {
+			logLine('mounting router at', `"${prefix}"`);
+			rootRouter.mount(prefix, router);
+		},
+		getOpenAPIDocument,
+		getWafStats: () => wafCounters.getStats(),
 		addPublicDirectory: function (dir: string, options: PublicDirectoryOptions = {}) {
 			const absoluteDir = path.resolve(process.cwd(), dir);
-			const fallbackMode = options.fallbackMode || 'priority';
-
-			logLine('adding public directory', absoluteDir, 'with mode', fallbackMode);
-
-			// Warn about security overrides
-			if (options.headers) {
-				for (const headerName of Object.keys(SECURE_DEFAULT_HEADERS)) {
-					if (options.headers[headerName]) {
-						warnSecurityOverride(headerName, absoluteDir);
-					}
-				}
-			}
-
-			if (options.allowAllFiles) {
-				console.warn(
-					`[SECURITY WARNING] allowAllFiles enabled for public directory: ${absoluteDir}\n` +
-					`This disables protection against serving sensitive files. Use with caution.`
-				);
-			}
-
-			const publicDirConfig = {
-				dir: absoluteDir,
-				options: {
-					headers: options.headers || {},
-					blockPatterns: options.blockPatterns || DEFAULT_BLOCKED_PATTERNS,
-					allowAllFiles: options.allowAllFiles || false,
-					fallbackMode,
-					spaMode: options.spaMode || false,
-				},
-			};
-
-			if (fallbackMode === 'catchall') {
-				CATCHALL_DIRECTORIES.push(publicDirConfig);
-			} else {
-				PUBLIC_DIRECTORIES.push(publicDirConfig);
-			}
+			registerPublicDirectory(absoluteDir, absoluteDir, options);
 		},
-		addPreRequestHandler: function (
-			handler: (
-				req: RequestHandler<ProvidedState>
-			) => boolean | Response | Promise<boolean | Response>
-		) {
+		addEmbeddedAssets: function (manifest: AssetManifest, options: PublicDirectoryOptions = {}) {
+			const assets = createEmbeddedFiles(manifest, Date.now());
+			registerPublicDirectory('/', `embedded assets (${assets.size} files)`, options, assets);
+		},
+		addPreRequestHandler: function (handler: PreRequestHandler<ProvidedState>) {
 			logLine('adding prerequest handler');
-			_preRequestHandlers.push(handler);
+			rootRouter.addPreRequestHandler(handler);
+		},
+		use: function (middleware: Middleware<ProvidedState>) {
+			logLine('adding middleware');
+			rootRouter.use(middleware);
 		},
 		start: () => {
 			if (mcp?.mode === 'stdio') {
@@ -521,7 +930,11 @@ export function createServer<ProvidedState extends object>({
 			}
 
 			const websocketConfig = {
-				message: (ws: any, message: any) => {
+				message: async (ws: any, message: any) => {
+					if (allowWebSocketMessage && !(await allowWebSocketMessage(ws))) {
+						ws.close(1008, 'Rate limit exceeded');
+						return;
+					}
 					if (webSocket?.onMessage) {
 						let obj: string | undefined;
 						if (typeof message === 'string') {
@@ -546,9 +959,13 @@ export function createServer<ProvidedState extends object>({
 				},
 			};
 
-			const wafRules = wafOverrides ?? WAF_COMMON_RULES;
+			const wafLogger = accessLogger ?? createJsonLogger();
 
-			const fetchHandler = async (request: Request, server: any) => {
+			const handleRequest = async (
+				request: Request,
+				server: any,
+				context: RequestContext<ProvidedState>
+			): Promise<Response | undefined> => {
 					try {
 						const url = new URL(request.url);
 						const path = url.pathname;
@@ -564,14 +981,27 @@ export function createServer<ProvidedState extends object>({
 						);
 
 						// WAF: reject known scanner/exploit paths before any routing
-						if (enableWaf && matchesWafRule(path, wafRules)) {
-							logLine('[WAF] blocked:', path);
-							return new Response(null, { status: 404 });
+						if (enableWaf) {
+							const wafResponse = await checkWaf(request, url, context);
+							if (wafResponse) {
+								return wafResponse;
+							}
+						}
+
+						if (globalLimiter) {
+							await checkRateLimit(globalLimiter, rateLimit!, request, context);
 						}
 
 						// Handle MCP endpoint before all other routing
 						if (mcpHttpHandler && path === mcpPath) {
-							if (method === 'POST') return await mcpHttpHandler.handlePost(request);
+							context.event = 'mcp';
+							// Browsers need to read the session id to send it back
+							context.exposedHeaders = ['Mcp-Session-Id'];
+							const corsOptions = findCorsOptions([rootScope]);
+							if (corsOptions && isPreflightRequest(request)) {
+								return createPreflightResponse(request, corsOptions, ['GET', 'POST', 'DELETE']);
+							}
+							if (method === 'POST') return await mcpHttpHandler.handlePost(request, context.ip);
 							if (method === 'GET') return mcpHttpHandler.handleGet(request);
 							if (method === 'DELETE') return mcpHttpHandler.handleDelete(request);
 							return new Response('Method Not Allowed', { status: 405 });
@@ -582,6 +1012,7 @@ export function createServer<ProvidedState extends object>({
 						if (webSocket) {
 							const wsPath = webSocket.path ?? '/ws';
 							if (path === wsPath) {
+								context.event = 'websocket';
 								if (webSocket.onUpgrade) {
 									const upgradeData = webSocket.onUpgrade(request);
 									if (!upgradeData) {
@@ -590,7 +1021,9 @@ export function createServer<ProvidedState extends object>({
 											400
 										);
 									}
-									const success = server.upgrade(request, { data: upgradeData });
+									const success = server.upgrade(request, {
+										data: countsWebSocketByIp ? withClientIp(upgradeData, context.ip) : upgradeData,
+									});
 									if (!success) {
 										throw new BunServerError(
 											'Websocket upgrade error. Bun threw while trying to upgrade the connection.',
@@ -598,7 +1031,10 @@ export function createServer<ProvidedState extends object>({
 										);
 									}
 								} else {
-									const success = server.upgrade(request);
+									const success = server.upgrade(
+										request,
+										countsWebSocketByIp ? { data: withClientIp(undefined, context.ip) } : undefined
+									);
 									if (!success) {
 										throw new BunServerError(
 											'Websocket upgrade error. Bun failed to upgrade the connection.',
@@ -610,59 +1046,10 @@ export function createServer<ProvidedState extends object>({
 							}
 						}
 
-						// First try to serve files from priority public directories (for GET requests)
-						if (method === 'GET') {
-							const priorityResponse = await tryServePublicFile(path, PUBLIC_DIRECTORIES);
-							if (priorityResponse) {
-								return priorityResponse;
-							}
-						}
-
 						if (!validateMethod(method)) {
 							return new Response('Method not allowed', { status: 405 });
 						}
 
-						const pathKey = getMatchingPathKey(method, path);
-						if (!pathKey) {
-							// No route matched - try catchall public directories for GET requests
-							if (method === 'GET' && CATCHALL_DIRECTORIES.length > 0) {
-								const catchallResponse = await tryServePublicFile(path, CATCHALL_DIRECTORIES);
-								if (catchallResponse) {
-									return catchallResponse;
-								}
-							}
-
-							throw new BunServerError('Not found', 404);
-						}
-						logLine('pathKey matched', pathKey);
-
-						// Dynamically handle OPTIONS requests and return allowed methods for the path
-						if (method === 'OPTIONS' && !registeredMethods.OPTIONS[pathKey]) {
-							const allowedMethods: string[] = [];
-
-							for (const [m, routeMap] of Object.entries(registeredMethods)) {
-								if (routeMap[pathKey]) {
-									allowedMethods.push(m);
-								}
-							}
-
-							if (allowedMethods.length === 0) {
-								throw new BunServerError('Not found', 404);
-							}
-
-							const response = new Response(null, {
-								status: 204,
-							});
-
-							response.headers.set('Allow', allowedMethods.join(', '));
-							Object.keys(globalHeaders).forEach((header) => {
-								logLine('set header', header, globalHeaders[header]);
-								response.headers.set(header, globalHeaders[header]);
-							});
-
-							return response;
-						}
-
 						// Initialize query parameters early - handle multiple values for same key
 						const query: Record<string, string | string[]> = {};
 						searchParams.forEach((value, key) => {
@@ -690,17 +1077,35 @@ export function createServer<ProvidedState extends object>({
 								{} as Record<string, string>
 							);
 
+						const signedCookies = cookieSigner ? await cookieSigner.verify(cookies) : {};
+						if (sessions) {
+							context.session = sessions(cookies, signedCookies);
+						}
+
 						const req: RequestHandler<ProvidedState> = {
 							request,
 							__raw: {
 								query,
 								body: {},
-								path: getParamsFromPath(pathKey, path),
+								path: {},
+								files: [],
 							},
 							headers: request.headers,
-							pathname: new URL(request.url).pathname,
+							pathname: path,
+							requestId: context.requestId,
+							ip: context.ip,
 							state: state(),
 							cookies,
+							signedCookies,
+							get session() {
+								if (!context.session) {
+									throw new Error('req.session requires the session server option');
+								}
+								return context.session.session;
+							},
+							get params() {
+								return req.__raw.path;
+							},
 							getBody: <T>(validator?: (body: Record<string, any>) => T): T => {
 								if (validator) {
 									return validator(req.__raw.body);
@@ -721,241 +1126,270 @@ export function createServer<ProvidedState extends object>({
 								}
 								return req.__raw.path as T;
 							},
+							getFiles: (field?: string) =>
+								field === undefined
+									? req.__raw.files
+									: req.__raw.files.filter((file) => file.field === field),
 						};
 						logLine(method, path);
 
-						if (_preRequestHandlers.length > 0) {
-							for (const guard of _preRequestHandlers) {
-								const result = await guard(req);
+						const rootRes = () =>
+							createResponseHandler({
+								request,
+								globalHeaders,
+								allowedRedirectHosts,
+								etag,
+								cookieSigner,
+							});
+						const isGetOrHead = method === 'GET' || method === 'HEAD';
+
+						// First try to serve files from priority public directories (for GET/HEAD requests)
+						if (isGetOrHead) {
+							const priorityResponse = await tryServePublicFile(
+								path,
+								PUBLIC_DIRECTORIES,
+								request
+							);
+							if (priorityResponse) {
+								return await runMiddleware([rootScope], req, rootRes(), () => priorityResponse);
+							}
+						}
+
+						// Dynamically handle OPTIONS requests and return allowed methods for the path
+						if (method === 'OPTIONS' && !routes.match('OPTIONS', path)) {
+							const allowedMethods = routes.allowedMethods(path);
 
-								if (result instanceof Response) {
-									return result; // <-- if a Response is returned, immediately send it back
-								}
+							if (allowedMethods.length === 0) {
+								throw new NotFoundError();
+							}
 
-								if (result === false) {
-									throw new BunServerError(
-										`Bad Request: onRequest failed to validate "${request.url}"`,
-										400
-									);
+							// A CORS preflight follows the policy of the route it asks about
+							const preflightMethod = request.headers.get('Access-Control-Request-Method');
+							if (preflightMethod && validateMethod(preflightMethod)) {
+								const target = routes.match(preflightMethod, path);
+								if (target) context.scopes = target.value.scopes;
+							}
+							const corsOptions = findCorsOptions(context.scopes);
+
+							return await runMiddleware([rootScope], req, rootRes(), () => {
+								const response =
+									corsOptions && isPreflightRequest(request)
+										? createPreflightResponse(request, corsOptions, allowedMethods)
+										: new Response(null, { status: 204 });
+
+								response.headers.set('Allow', allowedMethods.join(', '));
+								Object.keys(globalHeaders).forEach((header) => {
+									logLine('set header', header, globalHeaders[header]);
+									response.headers.set(header, globalHeaders[header]);
+								});
+
+								return response;
+							});
+						}
+
+						const route = routes.match(method, path);
+						if (!route) {
+							// No route matched - try catchall public directories for GET/HEAD requests
+							if (isGetOrHead && CATCHALL_DIRECTORIES.length > 0) {
+								const catchallResponse = await tryServePublicFile(
+									path,
+									CATCHALL_DIRECTORIES,
+									request
+								);
+								if (catchallResponse) {
+									return await runMiddleware([rootScope], req, rootRes(), () => catchallResponse);
 								}
 							}
+
+							logLine(404, method, path);
+							throw new NotFoundError('Not found', {
+								url: request.url,
+								method: request.method,
+							});
 						}
+						const pathKey = route.pathKey;
+						const scopes = route.value.scopes;
+						context.scopes = scopes;
+						context.route = pathKey;
+						req.__raw.path = route.params;
+						logLine('pathKey matched', pathKey);
 
-						if (registeredMethods[method][pathKey]) {
-							try {
-								const res = (): ResponseHandler => {
-									const headers: Record<string, string> = {};
-									let sent = false;
-									let status = 200;
-									const cookieHeaders: string[] = [];
-
-									return {
-										setStatus: (statusCode: number) => {
-											status = statusCode;
-										},
-										setCookie: (name: string, value: string, options?: CookieOptions) => {
-											let cookie = `${name}=${encodeURIComponent(value)}`;
-
-											if (options) {
-												if (options.path) cookie += `; Path=${options.path}`;
-												if (options.maxAge) cookie += `; Max-Age=${options.maxAge}`;
-												if (options.expires)
-													cookie += `; Expires=${options.expires.toUTCString()}`;
-												if (options.httpOnly) cookie += `; HttpOnly`;
-												if (options.secure) cookie += `; Secure`;
-												if (options.sameSite) cookie += `; SameSite=${options.sameSite}`;
-												if (options.domain) cookie += `; Domain=${options.domain}`;
-											}
-
-											cookieHeaders.push(cookie);
-										},
-										deleteCookie: (
-											name: string,
-											options?: Pick<CookieOptions, 'domain' | 'path'>
-										) => {
-											let cookie = `${name}=; Max-Age=0`;
-
-											if (options) {
-												if (options.path) cookie += `; Path=${options.path}`;
-												if (options.domain) cookie += `; Domain=${options.domain}`;
-											}
-
-											cookieHeaders.push(cookie);
-										},
-										setHeader: (key: string, value: string) => {
-											if (!sent) {
-												headers[key] = value;
-											} else {
-												console.warn('Headers already sent');
-											}
-										},
-										redirect: (location: string, statusCode: number = 302) => {
-											let isAbsolute = false;
-											try {
-												const parsed = new URL(location);
-												isAbsolute = true;
-												if (allowedRedirectHosts && allowedRedirectHosts.length > 0) {
-													if (!allowedRedirectHosts.includes(parsed.hostname)) {
-														console.error(`[SECURITY] Redirect to disallowed host blocked: ${parsed.hostname}`);
-														throw new BunServerError('Redirect to disallowed host', 403);
-													}
-												}
-											} catch (e) {
-												if (e instanceof BunServerError) throw e;
-												// Relative URL — always allowed
-											}
-
-											if (!isAbsolute && !location.startsWith('/')) {
-												console.error(`[SECURITY] Redirect to ambiguous URL blocked: ${location}`);
-												throw new BunServerError('Invalid redirect URL', 400);
-											}
-
-											sent = true;
-											const mergedHeaders = new Headers({
-												Location: location,
-												...globalHeaders,
-												...headers,
-											});
-
-											cookieHeaders.forEach(cookie => {
-												mergedHeaders.append('Set-Cookie', cookie);
-											});
-
-											return new Response(null, {
-												status: statusCode,
-												headers: mergedHeaders,
-											});
-										},
-										send: (data: any) => {
-											sent = true;
-
-											let body: BodyInit;
-											const mergedHeaders = new Headers({
-												...globalHeaders,
-												...headers,
-											});
-
-											// Add each cookie as a separate Set-Cookie header
-											cookieHeaders.forEach(cookie => {
-												mergedHeaders.append('Set-Cookie', cookie);
-											});
-
-											// Handle ArrayBuffer and binary data first
-											if (data instanceof ArrayBuffer || data instanceof Blob || data instanceof ReadableStream) {
-												body = data;
-												// Content-Type should already be set by the handler
-											} else if (typeof data === 'string') {
-												body = data;
-												if (!mergedHeaders.has('Content-Type')) {
-													mergedHeaders.set('Content-Type', 'text/html'); // default to HTML for strings
-												}
-											} else if (typeof data === 'object') {
-												body = JSON.stringify(data);
-												if (!mergedHeaders.has('Content-Type')) {
-													mergedHeaders.set('Content-Type', 'application/json');
-												}
-											} else {
-												body = data; // Fallback for any other type
-												if (!mergedHeaders.has('Content-Type')) {
-													mergedHeaders.set('Content-Type', 'application/octet-stream');
-												}
-											}
-
-											// @ts-ignore: Todo - fix this
-											return new Response(body, {
-												status,
-												headers: mergedHeaders,
-											});
-										},
-									};
-								};
+						const routeLimiter = routeLimiters.get(route.value);
+						if (routeLimiter) {
+							await checkRateLimit(routeLimiter, route.value.meta!.rateLimit!, request, context);
+						}
 
+						const res = createResponseHandler({
+							request,
+							globalHeaders: mergeScopeHeaders(scopes),
+							allowedRedirectHosts,
+							etag,
+							cookieSigner,
+						});
+
+						return await runMiddleware(scopes, req, res, async () => {
+							const guardResult = await runPreRequestHandlers(scopes, req);
+							if (guardResult instanceof Response) {
+								return guardResult; // <-- if a Response is returned, immediately send it back
+							}
+							if (guardResult === false) {
+								throw new BunServerError(
+									`Bad Request: onRequest failed to validate "${request.url}"`,
+									400
+								);
+							}
+
+							try {
 								// Parse request body for methods that typically include one
 								if (['POST', 'PUT', 'PATCH'].includes(method)) {
-									// Get Content-Type
-									const contentType = request.headers.get('Content-Type') || '';
-
-									// Initialize body storage
-									let parsedBody = {};
-
-									// Check if request actually has content
-									const contentLength = request.headers.get('Content-Length');
-									if (contentLength === '0') {
-										// Empty body is allowed
-										parsedBody = {};
-									} else if (contentType.includes('application/json')) {
-										// Parse JSON body
-										try {
-											const maybeJSON = await request.json();
-											if (maybeJSON && typeof maybeJSON === 'object') {
-												parsedBody = maybeJSON;
-											} else {
-												throw new BunServerError('Bad Request: Invalid JSON format', 400);
-											}
-										} catch (e) {
-											throw new BunServerError('Bad Request: Malformed JSON', 400);
-										}
-									} else if (contentType.includes('application/x-www-form-urlencoded')) {
-										// Parse URL-encoded form data
-										const formData = new URLSearchParams(await request.text());
-										parsedBody = Object.fromEntries(formData.entries());
-									} else if (contentType.includes('multipart/form-data')) {
-										const formData = await request.formData();
-										// Convert FormData to object for consistency
-										const formDataObj: Record<string, any> = {};
-										for (const [key, value] of formData.entries()) {
-											formDataObj[key] = value;
-										}
-										parsedBody = formDataObj;
-									} else if (
-										contentType.includes('application/octet-stream') ||
-										contentType.includes('image/') ||
-										contentType.includes('video/') ||
-										contentType.includes('audio/')
-									) {
-										// Handle binary data (raw buffer)
-										parsedBody = {
-											binary: await request.arrayBuffer(), // Returns an ArrayBuffer
-											contentType,
-										};
-									} else {
-										// Default to raw text
-										parsedBody = { text: await request.text() };
-									}
-
-									// Attach parsed body to request
-									req.__raw.body = parsedBody;
+									const maxSize = resolveBodyLimit(
+										request.headers.get('Content-Type') || '',
+										route.value.meta,
+										{ maxBodySize, maxMultipartBodySize }
+									);
+									const parsed = await parseRequestBody(request, maxSize, {
+										...multipart,
+										...route.value.meta?.multipart,
+									});
+									req.__raw.body = parsed.body;
+									req.__raw.files = parsed.files;
 								}
 
-								return await registeredMethods[method][pathKey](req, res());
+								return await route.value.handler(req, res);
 							} catch (e) {
 								logLine(`Error while processing route ${method}:${pathKey}`, e);
 								throw e;
+							} finally {
+								await removeUploadedFiles(req.__raw.files);
 							}
-						} else {
-							logLine(404, method, path);
-							throw new BunServerError('Not found', 404, {
-								url: request.url,
-								method: request.method,
-							});
-						}
-					} catch (e: any) {
-						if (_errorHandler) {
-							logLine('Sending error to registered handler', e);
-							return _errorHandler({
-								error: e,
-								method: request.method,
-								path: request.url,
-								headers: request.headers,
-								status: e.status,
-							});
-						} else {
-							logLine('No handler registered, throwing generic error.');
-							return new Response('Internal server error', { status: 500 });
-						}
+						});
+					} catch (e) {
+						return handleError(request, context, e);
 					}
 				};
 
+			/** Answers `e` with the error handler of the route's scopes, or as problem details. */
+			const handleError = async (
+				request: Request,
+				context: RequestContext<ProvidedState>,
+				e: any
+			): Promise<Response> => {
+				context.error = e;
+				const errorHandler = findErrorHandler(context.scopes);
+				if (errorHandler) {
+					logLine('Sending error to registered handler', e);
+					return errorHandler({
+						error: e,
+						method: request.method,
+						path: request.url,
+						headers: request.headers,
+						status: e.status,
+					});
+				} else {
+					logLine('No handler registered, sending problem details', e);
+					return createProblemResponse(e, {
+						instance: new URL(request.url).pathname,
+						includeStack: includeErrorStack,
+					});
+				}
+			};
+
+			/** Sends `response` as is, or through the access log when it's enabled. */
+			const finishRequest = (
+				request: Request,
+				response: Response | undefined,
+				context: RequestContext<ProvidedState>,
+				client: Pick<AccessLogEntry, 'ip' | 'userAgent'>,
+				startedAt: number
+			) => {
+				// Matches that didn't block are logged even without an access log
+				const reportWaf = context.waf?.action === 'log' || context.waf?.dryRun;
+				const logger = accessLogger ?? (reportWaf ? wafLogger : undefined);
+				if (!logger) {
+					return response;
+				}
+				const status = response ? response.status : 101;
+				const { error } = context;
+				return logAccess(
+					logger,
+					request,
+					response,
+					{
+						event: context.event ?? 'request',
+						requestId: context.requestId,
+						method: request.method,
+						route: context.route ?? null,
+						path: new URL(request.url).pathname,
+						...client,
+						...(context.waf && { waf: context.waf }),
+						...(status >= 500 &&
+							error !== undefined && {
+								error: error instanceof Error ? error.message : String(error),
+							}),
+					},
+					startedAt
+				);
+			};
+
+			const fetchHandler = async (request: Request, server: any) => {
+				const startedAt = performance.now();
+				const context: RequestContext<ProvidedState> = {
+					scopes: [rootScope],
+					requestId: resolveRequestId(
+						requestIdHeader ? request.headers.get(requestIdHeader) : null
+					),
+					ip: resolveClientIp(request, server.requestIP(request)?.address ?? null),
+				};
+				// Read up front: a WebSocket upgrade takes the request over
+				const client = {
+					ip: context.ip,
+					userAgent: request.headers.get('User-Agent'),
+				};
+				let response = await handleRequest(request, server, context);
+
+				if (!response) {
+					return finishRequest(request, response, context, client, startedAt);
+				}
+
+				if (context.rateLimit) {
+					context.exposedHeaders = [...(context.exposedHeaders ?? []), ...RATE_LIMIT_HEADERS];
+				}
+
+				// Saving the session and applying CORS can fail too, and are answered like route errors
+				if (context.session) {
+					try {
+						await context.session.commit(response);
+					} catch (e) {
+						response = await handleError(request, context, e);
+					}
+				}
+
+				// CORS applies to everything that produced a response, including errors
+				const corsOptions = findCorsOptions(context.scopes);
+				if (corsOptions) {
+					try {
+						await applyCorsHeaders(response, request, corsOptions, context.exposedHeaders);
+					} catch (e) {
+						response = await handleError(request, context, e);
+					}
+				}
+
+				if (requestIdHeader) {
+					response.headers.set(requestIdHeader, context.requestId);
+				}
+				if (context.rateLimit) {
+					setRateLimitHeaders(response.headers, context.rateLimit);
+				}
+				if (compression) {
+					response = await compressResponse(
+						request,
+						response,
+						compression === true ? {} : compression
+					);
+				}
+				return finishRequest(request, response, context, client, startedAt);
+			};
+
 				if (tls) {
 					Bun.serve({
 						port,
@@ -0,0 +1,169 @@
+import { describe, expect, test } from 'bun:test';
+import { createTestServer } from './bun-test-server';
+import { createServer } from './index';
+import { logAccess, resolveRequestId } from './logging';
+import type { AccessLogEntry, Logger } from './server-types';
+
+function createMemoryLogger() {
+	const entries: Array<{ level: string; entry: AccessLogEntry }> = [];
+	const logger: Logger = {
+		info: (entry) => entries.push({ level: 'info', entry }),
+		warn: (entry) => entries.push({ level: 'warn', entry }),
+		error: (entry) => entries.push({ level: 'error', entry }),
+	};
+	return { logger, entries };
+}
+
+const details = {
+	event: 'request' as const,
+	requestId: 'req-1',
+	method: 'GET',
+	route: '/users/:id',
+	path: '/users/42',
+	ip: '203.0.113.7',
+	userAgent: null,
+};
+
+describe('resolveRequestId', () => {
+	test('propagates safe ids and replaces the rest', () => {
+		expect(resolveRequestId('abc-123:edge/7')).toBe('abc-123:edge/7');
+		expect(resolveRequestId(null)).toMatch(/^[0-9a-f-]{36}$/);
+		expect(resolveRequestId('bad id\nInjected: yes')).not.toContain('bad');
+		expect(resolveRequestId('x'.repeat(201))).toHaveLength(36);
+	});
+});
+
+describe('logAccess', () => {
+	test('logs once the body is sent, with the bytes counted', async () => {
+		const { logger, entries } = createMemoryLogger();
+
+		const response = logAccess(
+			logger,
+			new Request('http://localhost/users/42'),
+			new Response('hello'),
+			details,
+			performance.now()
+		)!;
+
+		expect(entries).toEqual([]);
+		expect(await response.text()).toBe('hello');
+		expect(entries).toHaveLength(1);
+		expect(entries[0]!.level).toBe('info');
+		expect(entries[0]!.entry).toMatchObject({
+			...details,
+			status: 200,
+			bytes: 5,
+		});
+		expect(entries[0]!.entry.duration).toBeNumber();
+	});
+
+	test('picks the level from the status and the WAF', () => {
+		const { logger, entries } = createMemoryLogger();
+		const request = new Request('http://localhost/users/42');
+		const now = performance.now();
+
+		logAccess(
+			logger,
+			request,
+			new Response(null, { status: 503 }),
+			{
+				...details,
+				error: 'database down',
+			},
+			now
+		);
+		logAccess(
+			logger,
+			request,
+			new Response(null, { status: 403 }),
+			{
+				...details,
+				event: 'waf',
+				waf: { action: 'block', rules: ['sql-injection'] },
+			},
+			now
+		);
+		logAccess(
+			logger,
+			request,
+			undefined,
+			{ ...details, event: 'websocket' },
+			now
+		);
+
+		expect(entries.map(({ level, entry }) => [level, entry.status])).toEqual([
+			['error', 503],
+			['warn', 403],
+			['info', 101],
+		]);
+		expect(entries[0]!.entry.error).toBe('database down');
+	});
+
+	test('marks responses the client abandoned', async () => {
+		const { logger, entries } = createMemoryLogger();
+		const body = new ReadableStream({
+			pull: (controller) => controller.enqueue(new Uint8Array(8)),
+		});
+
+		const response = logAccess(
+			logger,
+			new Request('http://localhost/stream'),
+			new Response(body),
+			details,
+			performance.now()
+		)!;
+		const reader = response.body!.getReader();
+		await reader.read();
+		await reader.cancel();
+
+		expect(entries[0]!.entry).toMatchObject({ aborted: true, bytes: 8 });
+	});
+});
+
+describe('request ids', () => {
+	test('are generated or propagated, and exposed to handlers', async () => {
+		const app = createTestServer();
+		app.get('/', (req, res) => res.send({ requestId: req.requestId }));
+
+		const generated = await app.call('/');
+		const propagated = await app.call('/', {
+			headers: { 'X-Request-Id': 'edge-42' },
+		});
+
+		expect(generated.headers['x-request-id']).toBe(generated.body.requestId);
+		expect(propagated.body.requestId).toBe('edge-42');
+		expect(propagated.headers['x-request-id']).toBe('edge-42');
+	});
+});
+
+describe('access log', () => {
+	test('gets one entry per request from the server', async () => {
+		const { logger, entries } = createMemoryLogger();
+		const app = createServer({ port: 0, accessLog: logger });
+		app.get('/users/:id', (req, res) => res.send({ id: req.params.id }));
+		const server = app.start();
+
+		try {
+			const response = await fetch(new URL('/users/42', server.url), {
+				headers: { 'X-Request-Id': 'edge-42', 'User-Agent': 'tests' },
+			});
+			const body = await response.text();
+			// The entry is written once the body has been sent
+			await Bun.sleep(10);
+
+			expect(entries).toHaveLength(1);
+			expect(entries[0]!.entry).toMatchObject({
+				event: 'request',
+				requestId: 'edge-42',
+				method: 'GET',
+				route: '/users/:id',
+				path: '/users/42',
+				status: 200,
+				bytes: body.length,
+				userAgent: 'tests',
+			});
+		} finally {
+			server.stop(true);
+		}
+	});
+});
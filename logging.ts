@@ -0,0 +1,119 @@
+import type { AccessLogEntry, Logger } from './server-types';
+
+// Incoming request ids are echoed into logs and headers, so only accept tame ones
+const REQUEST_ID_PATTERN = /^[\w.:@/+=-]{1,200}$/;
+
+/** What is known about a request before its response has been sent. */
+export type AccessLogDetails = Omit<
+	AccessLogEntry,
+	'status' | 'duration' | 'bytes' | 'aborted'
+>;
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function write(level: string, entry: AccessLogEntry) {
+	console.log(
+		JSON.stringify({ time: new Date().toISOString(), level, ...entry })
+	);
+}
+
+/**
+ * Wraps `response` so its body bytes are counted as they are sent, calling
+ * `onDone` once the body is finished or the client goes away.
+ */
+function countBodyBytes(
+	response: Response,
+	onDone: (bytes: number, aborted: boolean) => void
+): Response {
+	const reader = response.body!.getReader();
+	let bytes = 0;
+	let finished = false;
+	const finish = (aborted: boolean) => {
+		// A failed read is followed by a cancel; only the first one counts
+		if (finished) return;
+		finished = true;
+		onDone(bytes, aborted);
+	};
+	const body = new ReadableStream<Uint8Array>({
+		pull: async (controller) => {
+			try {
+				const { done, value } = await reader.read();
+				if (done) {
+					controller.close();
+					finish(false);
+					return;
+				}
+				bytes += value.byteLength;
+				controller.enqueue(value);
+			} catch (e) {
+				controller.error(e);
+				finish(true);
+			}
+		},
+		cancel: async (reason) => {
+			finish(true);
+			await reader.cancel(reason);
+		},
+	});
+
+	return new Response(body, {
+		status: response.status,
+		statusText: response.statusText,
+		headers: response.headers,
+	});
+}
+
+// ─── Public helpers ───────────────────────────────────────────────────────────
+
+/** Writes each entry as one JSON line on stdout, with `time` and `level` added. */
+export function createJsonLogger(): Logger {
+	return {
+		info: (entry) => write('info', entry),
+		warn: (entry) => write('warn', entry),
+		error: (entry) => write('error', entry),
+	};
+}
+
+/** Reuses the client's request id when it looks safe to, otherwise makes a new one. */
+export function resolveRequestId(incoming: string | null): string {
+	return incoming && REQUEST_ID_PATTERN.test(incoming)
+		? incoming
+		: crypto.randomUUID();
+}
+
+/**
+ * Logs a request once its response has been sent: 5xx responses as errors, WAF
+ * matches as warnings and everything else as info. Responses with a body are
+ * wrapped to count their bytes, so the returned response must be sent instead.
+ * An `undefined` response is a WebSocket upgrade.
+ */
+export function logAccess(
+	logger: Logger,
+	request: Request,
+	response: Response | undefined,
+	details: AccessLogDetails,
+	startedAt: number
+): Response | undefined {
+	const status = response ? response.status : 101;
+	const { error, ...requestDetails } = details;
+	const log = (bytes: number, aborted: boolean) => {
+		const entry: AccessLogEntry = {
+			...requestDetails,
+			status,
+			duration: Math.round((performance.now() - startedAt) * 100) / 100,
+			bytes,
+		};
+		if (aborted) entry.aborted = true;
+		if (error) entry.error = error;
+
+		if (status >= 500) logger.error(entry);
+		else if (details.event === 'waf' || details.waf) logger.warn(entry);
+		else logger.info(entry);
+	};
+
+	if (!response?.body || request.method === 'HEAD') {
+		log(0, false);
+		return response;
+	}
+	return countBodyBytes(response, log);
+}
@@ -1,4 +1,12 @@
-import type { MCPConfig, MCPToolDefinition, MCPContent, MCPToolResult } from './server-types';
+import type {
+	MCPConfig,
+	MCPToolDefinition,
+	MCPContent,
+	MCPToolResult,
+	SSEStream,
+} from './server-types';
+import { createSSEStream } from './sse';
+import { createRateLimiter, resolveRateLimitKey } from './ratelimit';
 
 export const MCP_PROTOCOL_VERSION = '2025-03-26';
 
@@ -7,7 +15,7 @@ export const MCP_PROTOCOL_VERSION = '2025-03-26';
 type Session = {
 	id: string;
 	initialized: boolean;
-	sseController?: ReadableStreamDefaultController<Uint8Array>;
+	sseStream?: SSEStream;
 };
 
 type MessageResult = {
@@ -21,8 +29,8 @@ function rpcResult(id: any, result: any): Record<string, any> {
 	return { jsonrpc: '2.0', id, result };
 }
 
-function rpcError(id: any, code: number, message: string): Record<string, any> {
-	return { jsonrpc: '2.0', id, error: { code, message } };
+function rpcError(id: any, code: number, message: string, data?: any): Record<string, any> {
+	return { jsonrpc: '2.0', id, error: { code, message, ...(data !== undefined && { data }) } };
 }
 
 function normalizeToolResult(raw: MCPToolResult): { content: MCPContent[]; isError: boolean } {
@@ -46,8 +54,16 @@ export function createMcpMessageHandler(config: MCPConfig) {
 	}
 
 	const serverInfo = config.serverInfo ?? { name: 'bun-server-mcp', version: '1.0.0' };
-
-	async function handleMessage(message: any, sessionId?: string): Promise<MessageResult> {
+	const limiter = config.rateLimit ? createRateLimiter(config.rateLimit, 'mcp') : null;
+
+	/**
+	 * @param rateLimitKey - who `tools/call` is counted for; null leaves it unlimited
+	 */
+	async function handleMessage(
+		message: any,
+		sessionId?: string,
+		rateLimitKey: string | null = null
+	): Promise<MessageResult> {
 		const { method, id, params } = message;
 
 		// ── initialize ────────────────────────────────────────────────────────
@@ -113,6 +129,15 @@ export function createMcpMessageHandler(config: MCPConfig) {
 				return { response: rpcError(id, -32602, `Unknown tool: ${toolName}`) };
 			}
 
+			if (limiter && rateLimitKey !== null) {
+				const { allowed, retryAfter } = await limiter.check(rateLimitKey);
+				if (!allowed) {
+					return {
+						response: rpcError(id, -32000, 'Rate limit exceeded', { retryAfter }),
+					};
+				}
+			}
+
 			try {
 				const raw = await tool.handler(args);
 				return { response: rpcResult(id, normalizeToolResult(raw)) };
@@ -136,10 +161,13 @@ export function createMcpMessageHandler(config: MCPConfig) {
 
 export function createMcpHttpHandler(config: MCPConfig) {
 	const { handleMessage, sessions } = createMcpMessageHandler(config);
-	const encoder = new TextEncoder();
 
-	async function handlePost(request: Request): Promise<Response> {
+	/** @param ip - the client's address, for `rateLimit` */
+	async function handlePost(request: Request, ip: string | null = null): Promise<Response> {
 		const sessionId = request.headers.get('Mcp-Session-Id') ?? undefined;
+		const rateLimitKey = config.rateLimit
+			? await resolveRateLimitKey(config.rateLimit.key, request, ip)
+			: null;
 
 		let body: any;
 		try {
@@ -153,7 +181,7 @@ export function createMcpHttpHandler(config: MCPConfig) {
 
 		// Batch of messages
 		if (Array.isArray(body)) {
-			const results = await Promise.all(body.map((msg) => handleMessage(msg, sessionId)));
+			const results = await Promise.all(body.map((msg) => handleMessage(msg, sessionId, rateLimitKey)));
 			const responses = results.map((r) => r.response).filter((r) => r !== null);
 			if (responses.length === 0) return new Response(null, { status: 202 });
 			return new Response(JSON.stringify(responses), {
@@ -162,7 +190,7 @@ export function createMcpHttpHandler(config: MCPConfig) {
 		}
 
 		// Single message
-		const { response, newSessionId } = await handleMessage(body, sessionId);
+		const { response, newSessionId } = await handleMessage(body, sessionId, rateLimitKey);
 
 		if (response === null) {
 			return new Response(null, { status: 202 });
@@ -184,41 +212,17 @@ export function createMcpHttpHandler(config: MCPConfig) {
 			return new Response('Session not found', { status: 404 });
 		}
 
-		let interval: ReturnType<typeof setInterval>;
-
-		const stream = new ReadableStream<Uint8Array>({
-			start(controller) {
-				if (sessionId) {
-					const session = sessions.get(sessionId);
-					if (session) session.sseController = controller;
-				}
+		// Keep-alive heartbeat every 15 seconds
+		const stream = createSSEStream(request, { heartbeat: 15_000 });
+		const session = sessionId ? sessions.get(sessionId) : undefined;
+		if (session) {
+			session.sseStream = stream;
+			stream.onClose(() => {
+				if (session.sseStream === stream) delete session.sseStream;
+			});
+		}
 
-				// Keep-alive heartbeat every 15 seconds (SSE comment, ignored by clients)
-				interval = setInterval(() => {
-					try {
-						controller.enqueue(encoder.encode(': heartbeat\n\n'));
-					} catch {
-						clearInterval(interval);
-					}
-				}, 15_000);
-			},
-			cancel() {
-				clearInterval(interval);
-				if (sessionId) {
-					const session = sessions.get(sessionId);
-					if (session) delete session.sseController;
-				}
-			},
-		});
-
-		return new Response(stream, {
-			headers: {
-				'Content-Type': 'text/event-stream',
-				'Cache-Control': 'no-cache',
-				'Connection': 'keep-alive',
-				'X-Accel-Buffering': 'no',
-			},
-		});
+		return stream.response;
 	}
 
 	function handleDelete(request: Request): Response {
@@ -227,11 +231,7 @@ export function createMcpHttpHandler(config: MCPConfig) {
 			return new Response('Session not found', { status: 404 });
 		}
 		const session = sessions.get(sessionId)!;
-		try {
-			session.sseController?.close();
-		} catch {
-			// already closed
-		}
+		session.sseStream?.close();
 		sessions.delete(sessionId);
 		return new Response(null, { status: 200 });
 	}
@@ -284,7 +284,8 @@ export async function runMcpStdio(config: MCPConfig): Promise<void> {
 				continue;
 			}
 
-			const { response } = await handleMessage(message, stdioSessionId);
+			// The process on the other end is the only client
+			const { response } = await handleMessage(message, stdioSessionId, 'stdio');
 			if (response !== null) {
 				writeLine(response);
 			}
@@ -0,0 +1,119 @@
+import { describe, expect, test } from 'bun:test';
+import { createTestServer } from './bun-test-server';
+import { parseMultipart } from './multipart';
+import type { UploadedFile } from './server-types';
+
+/** Encodes `form` the way a browser would, for `call`. */
+async function multipart(form: FormData) {
+	const request = new Request('http://test-server', {
+		method: 'POST',
+		body: form,
+	});
+	return {
+		method: 'POST' as const,
+		headers: { 'Content-Type': request.headers.get('Content-Type')! },
+		body: new Uint8Array(await request.arrayBuffer()),
+	};
+}
+
+function uploadForm(): FormData {
+	const form = new FormData();
+	form.append('title', 'Quarterly report');
+	form.append(
+		'report',
+		new File(['a,b\n1,2\n'], 'report.csv', { type: 'text/csv' })
+	);
+	return form;
+}
+
+describe('multipart uploads', () => {
+	test('parses fields and spools files', async () => {
+		const app = createTestServer();
+		app.post('/upload', async (req, res) => {
+			const report = req.getFiles('report')[0]!;
+			return res.send({
+				title: req.getBody().title,
+				report: { name: report.name, size: report.size, type: report.type },
+				text: await Bun.file(report.path!).text(),
+			});
+		});
+
+		const response = await app.call('/upload', await multipart(uploadForm()));
+
+		expect(response.status).toBe(200);
+		expect(response.body).toEqual({
+			title: 'Quarterly report',
+			report: { name: 'report.csv', size: 8, type: 'text/csv' },
+			text: 'a,b\n1,2\n',
+		});
+	});
+
+	test('removes spooled files once the handler returns', async () => {
+		const app = createTestServer();
+		let report: UploadedFile | undefined;
+		app.post('/upload', (req, res) => {
+			[report] = req.getFiles('report');
+			return res.send({ ok: true });
+		});
+
+		await app.call('/upload', await multipart(uploadForm()));
+
+		expect(await Bun.file(report!.path!).exists()).toBe(false);
+	});
+
+	test('kept files can be read after the handler returns', async () => {
+		const app = createTestServer();
+		let job: Promise<string> | undefined;
+		let report: UploadedFile | undefined;
+		app.post('/upload', (req, res) => {
+			report = req.getFiles('report')[0]!;
+			report.keep();
+			const file: Blob = req.getBody().report;
+			// Reads the upload after the response has gone out, like a queued job would
+			job = Bun.sleep(10).then(() => file.text());
+			return res.send({ queued: true });
+		});
+
+		const response = await app.call('/upload', await multipart(uploadForm()));
+
+		expect(response.status).toBe(200);
+		expect(await job).toBe('a,b\n1,2\n');
+		await Bun.file(report!.path!).delete();
+	});
+
+	test('rejects files over maxFileSize with 413', async () => {
+		const app = createTestServer({ multipart: { maxFileSize: 4 } });
+		app.post('/upload', (req, res) => res.send({ ok: true }));
+
+		const response = await app.call('/upload', await multipart(uploadForm()));
+
+		expect(response.status).toBe(413);
+	});
+
+	test('rejects file types not in allowedTypes with 415', async () => {
+		const app = createTestServer();
+		app.post('/upload', (req, res) => res.send({ ok: true }), {
+			multipart: { allowedTypes: ['image/'] },
+		});
+
+		const response = await app.call('/upload', await multipart(uploadForm()));
+
+		expect(response.status).toBe(415);
+	});
+
+	test('rejects a Content-Length over maxBodySize before reading the body', async () => {
+		// A body that never arrives: reading it would hang
+		const request = new Request('http://test-server/upload', {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'multipart/form-data; boundary=x',
+				'Content-Length': '1000',
+			},
+			body: new ReadableStream({ pull: () => new Promise(() => {}) }),
+		});
+
+		await expect(parseMultipart(request, 100)).rejects.toMatchObject({
+			status: 413,
+		});
+	});
+});
@@ -0,0 +1,410 @@
+import os from 'os';
+import path from 'path';
+import { unlink } from 'fs/promises';
+import type { MultipartOptions, UploadedFile } from './server-types';
+import { BunServerError } from './errors';
+
+const HEADER_END = Buffer.from('\r\n\r\n');
+// Part headers are a few short lines; anything longer is malformed or hostile
+const MAX_HEADER_SIZE = 16 * 1024;
+
+// Files a handler took over with `keep()`, left in place after it returns
+const keptFiles = new WeakSet<UploadedFile>();
+
+type PartInfo = { field: string; filename: string | null; type: string };
+
+/** Where the bytes of the current part go. */
+type PartSink = {
+	write: (chunk: Uint8Array) => Promise<void>;
+	finish: () => Promise<void>;
+	abort: () => Promise<void>;
+};
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function malformed(reason: string): BunServerError {
+	return new BunServerError(
+		`Bad Request: Malformed multipart body (${reason})`,
+		400
+	);
+}
+
+function limitExceeded(
+	message: string,
+	limit: string,
+	value: number
+): BunServerError {
+	return new BunServerError(`Payload Too Large: ${message}`, 413, {
+		[limit]: String(value),
+	});
+}
+
+function bodyTooLarge(maxBodySize: number): BunServerError {
+	return limitExceeded(
+		`body exceeds ${maxBodySize} bytes`,
+		'maxBodySize',
+		maxBodySize
+	);
+}
+
+function getBoundary(contentType: string): string | null {
+	const match = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(contentType);
+	return match ? (match[1] ?? match[2]!).trim() : null;
+}
+
+/** Reads the field name, file name and type from a part's headers. */
+function parsePartHeaders(raw: string): PartInfo {
+	let disposition = '';
+	let type = '';
+	for (const line of raw.split('\r\n')) {
+		const colon = line.indexOf(':');
+		if (colon === -1) continue;
+		const name = line.slice(0, colon).trim().toLowerCase();
+		const value = line.slice(colon + 1).trim();
+		if (name === 'content-disposition') disposition = value;
+		if (name === 'content-type') type = value;
+	}
+
+	const params: Record<string, string> = {};
+	const paramPattern = /;\s*([^=;\s]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;]*))/g;
+	for (const [, key, quoted, bare] of disposition.matchAll(paramPattern)) {
+		params[key!.toLowerCase()] =
+			quoted?.replace(/\\(.)/g, '$1') ?? bare!.trim();
+	}
+
+	if (params.name === undefined) {
+		throw malformed('part without a field name');
+	}
+
+	let filename = params.filename ?? null;
+	const extended = /^[\w-]+'[^']*'(.*)$/.exec(params['filename*'] ?? '');
+	if (extended) {
+		try {
+			filename = decodeURIComponent(extended[1]!);
+		} catch {
+			// Keep the plain filename
+		}
+	}
+
+	return {
+		field: params.name,
+		filename,
+		type:
+			type || (filename !== null ? 'application/octet-stream' : 'text/plain'),
+	};
+}
+
+function isAllowedType(type: string, allowed: Array<string | RegExp>): boolean {
+	const mime = type.split(';')[0]!.trim().toLowerCase();
+	return allowed.some((pattern) =>
+		pattern instanceof RegExp
+			? pattern.test(mime)
+			: pattern.endsWith('/')
+				? mime.startsWith(pattern)
+				: mime === pattern
+	);
+}
+
+/** Collects a field value in memory, up to `maxSize` bytes. */
+function createFieldSink(
+	field: string,
+	maxSize: number,
+	onDone: (value: string) => void
+): PartSink {
+	const chunks: Uint8Array[] = [];
+	let size = 0;
+	return {
+		write: async (chunk) => {
+			size += chunk.byteLength;
+			if (size > maxSize) {
+				throw limitExceeded(
+					`field "${field}" exceeds ${maxSize} bytes`,
+					'maxFieldSize',
+					maxSize
+				);
+			}
+			chunks.push(chunk);
+		},
+		finish: async () => {
+			onDone(Buffer.concat(chunks).toString('utf8'));
+		},
+		abort: async () => {},
+	};
+}
+
+/** Writes a file to `filePath`, up to `maxSize` bytes. */
+function createDiskSink(
+	file: UploadedFile,
+	filePath: string,
+	maxSize: number
+): PartSink {
+	const writer = Bun.file(filePath).writer();
+	return {
+		write: async (chunk) => {
+			file.size += chunk.byteLength;
+			if (file.size > maxSize) {
+				throw limitExceeded(
+					`file "${file.name}" exceeds ${maxSize} bytes`,
+					'maxFileSize',
+					maxSize
+				);
+			}
+			writer.write(chunk);
+		},
+		finish: async () => {
+			await writer.end();
+		},
+		abort: async () => {
+			await writer.end();
+		},
+	};
+}
+
+/** Hands a file to `onFile` as a stream, pausing the upload while it reads. */
+function createStreamSink(
+	file: UploadedFile,
+	maxSize: number,
+	onFile: NonNullable<MultipartOptions['onFile']>,
+	request: Request
+): PartSink {
+	const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+	const writer = writable.getWriter();
+	const result = Promise.resolve(
+		onFile(
+			{ field: file.field, name: file.name, type: file.type, stream: readable },
+			request
+		)
+	);
+	// Once `onFile` has finished, stop waiting for it to read
+	let finished = false;
+	const settled = result.then(
+		() => {
+			finished = true;
+		},
+		() => {
+			finished = true;
+		}
+	);
+
+	function race(operation: Promise<void>): Promise<void> {
+		operation.catch(() => {});
+		return Promise.race([operation, settled]);
+	}
+
+	return {
+		write: async (chunk) => {
+			file.size += chunk.byteLength;
+			if (file.size > maxSize) {
+				throw limitExceeded(
+					`file "${file.name}" exceeds ${maxSize} bytes`,
+					'maxFileSize',
+					maxSize
+				);
+			}
+			if (finished) {
+				// Surfaces a rejection from `onFile`; otherwise the rest is discarded
+				await result;
+				return;
+			}
+			await race(writer.write(chunk));
+		},
+		finish: async () => {
+			if (!finished) await race(writer.close());
+			file.path = (await result) || null;
+		},
+		abort: async () => {
+			// Not awaited: with a write still pending, the abort may never settle
+			writer.abort(new Error('Upload aborted')).catch(() => {});
+		},
+	};
+}
+
+// ─── Public helpers ───────────────────────────────────────────────────────────
+
+/**
+ * Streams a `multipart/form-data` body, collecting fields in memory and spooling
+ * files to disk (or handing them to `onFile`) as they arrive, so uploads are
+ * never held in memory whole. Limits are enforced while reading.
+ *
+ * @throws BunServerError 413 when a limit is exceeded, 415 for a file type not in
+ *   `allowedTypes`, 400 for a malformed body. Spooled files are removed on error.
+ */
+export async function parseMultipart(
+	request: Request,
+	maxBodySize: number,
+	{
+		maxFileSize = Infinity,
+		maxFiles = Infinity,
+		maxFieldSize = 1024 * 1024,
+		maxFields = 1000,
+		allowedTypes,
+		tempDir = os.tmpdir(),
+		onFile,
+	}: MultipartOptions = {}
+): Promise<{ fields: Record<string, string>; files: UploadedFile[] }> {
+	const boundary = getBoundary(request.headers.get('Content-Type') || '');
+	if (!boundary) {
+		throw malformed('missing boundary');
+	}
+	// Content-Length is checked up front; chunked bodies are counted as they stream
+	if (Number(request.headers.get('Content-Length')) > maxBodySize) {
+		throw bodyTooLarge(maxBodySize);
+	}
+	const delimiter = Buffer.from(`\r\n--${boundary}`);
+
+	const fields: Record<string, string> = {};
+	const files: UploadedFile[] = [];
+	let fieldCount = 0;
+
+	// Widened so checks after `consume()` calls aren't narrowed to the initial value
+	let state = 'preamble' as 'preamble' | 'headers' | 'body' | 'done';
+	let sink: PartSink | null = null;
+
+	function startPart({ field, filename, type }: PartInfo): PartSink {
+		if (filename === null) {
+			if (++fieldCount > maxFields) {
+				throw limitExceeded(
+					`more than ${maxFields} fields`,
+					'maxFields',
+					maxFields
+				);
+			}
+			return createFieldSink(field, maxFieldSize, (value) => {
+				fields[field] = value;
+			});
+		}
+
+		if (filename === '') {
+			// A file input left empty; browsers still send a part for it
+			return createFieldSink(field, 0, () => {});
+		}
+		if (files.length >= maxFiles) {
+			throw limitExceeded(`more than ${maxFiles} files`, 'maxFiles', maxFiles);
+		}
+		if (allowedTypes && !isAllowedType(type, allowedTypes)) {
+			throw new BunServerError(`Unsupported Media Type: ${type}`, 415, {
+				type,
+			});
+		}
+
+		const file: UploadedFile = {
+			field,
+			name: filename,
+			size: 0,
+			type,
+			path: null,
+			keep: () => {
+				keptFiles.add(file);
+			},
+		};
+		files.push(file);
+		if (onFile) {
+			return createStreamSink(file, maxFileSize, onFile, request);
+		}
+		file.path = path.join(tempDir, `bun-server-upload-${crypto.randomUUID()}`);
+		return createDiskSink(file, file.path, maxFileSize);
+	}
+
+	/** Parses as much of `buffer` as possible and returns the unparsed rest. */
+	async function consume(buffer: Buffer): Promise<Buffer> {
+		while (true) {
+			if (state === 'headers') {
+				const end = buffer.indexOf(HEADER_END);
+				if (end === -1) {
+					if (buffer.length > MAX_HEADER_SIZE)
+						throw malformed('part headers too large');
+					return buffer;
+				}
+				sink = startPart(parsePartHeaders(buffer.toString('utf8', 0, end)));
+				buffer = buffer.subarray(end + HEADER_END.length);
+				state = 'body';
+				continue;
+			}
+
+			const index = buffer.indexOf(delimiter);
+			if (index === -1) {
+				// Hold back a tail that could be the start of the next delimiter
+				const keep = Math.min(buffer.length, delimiter.length - 1);
+				if (sink) await sink.write(buffer.subarray(0, buffer.length - keep));
+				return buffer.subarray(buffer.length - keep);
+			}
+
+			if (sink) {
+				await sink.write(buffer.subarray(0, index));
+				buffer = buffer.subarray(index);
+			}
+
+			// The delimiter is followed by `--` on the last part, or a line break
+			const after = (sink ? 0 : index) + delimiter.length;
+			if (buffer.length < after + 2) {
+				return sink ? buffer : buffer.subarray(index);
+			}
+			if (sink) {
+				await sink.finish();
+				sink = null;
+			}
+
+			const suffix = buffer.toString('latin1', after, after + 2);
+			if (suffix === '--') {
+				state = 'done';
+				return Buffer.alloc(0);
+			}
+			if (suffix !== '\r\n') {
+				throw malformed('bad delimiter');
+			}
+			buffer = buffer.subarray(after + 2);
+			state = 'headers';
+		}
+	}
+
+	if (!request.body) {
+		return { fields, files };
+	}
+	const reader = request.body.getReader();
+	// Starting with a line break lets the first boundary match `delimiter` too
+	let buffer: Buffer = Buffer.from('\r\n');
+	let received = 0;
+
+	try {
+		while (state !== 'done') {
+			const { done, value } = await reader.read();
+			if (done) break;
+
+			received += value.byteLength;
+			if (received > maxBodySize) {
+				throw bodyTooLarge(maxBodySize);
+			}
+			buffer = await consume(
+				buffer.length > 0 ? Buffer.concat([buffer, value]) : Buffer.from(value)
+			);
+		}
+
+		if (state !== 'done') {
+			throw malformed('unexpected end of body');
+		}
+		// Anything after the final delimiter is an epilogue and is ignored
+		await reader.cancel();
+	} catch (e) {
+		await (sink as PartSink | null)?.abort();
+		await reader.cancel().catch(() => {});
+		await removeUploadedFiles(files);
+		throw e;
+	}
+
+	return { fields, files };
+}
+
+/** Deletes spooled upload files, skipping kept ones and ignoring any already moved. */
+export async function removeUploadedFiles(
+	files: UploadedFile[]
+): Promise<void> {
+	await Promise.all(
+		files.map((file) =>
+			file.path &&
+			!keptFiles.has(file) &&
+			path.basename(file.path).startsWith('bun-server-upload-')
+				? unlink(file.path).catch(() => {})
+				: undefined
+		)
+	);
+}
@@ -0,0 +1,89 @@
+import { describe, expect, test } from 'bun:test';
+import { createTestServer } from './bun-test-server';
+
+const info = { title: 'Test API', version: '1.0.0' };
+
+describe('createOpenAPIDocument', () => {
+	test('documents routes with their params, bodies and responses', () => {
+		const app = createTestServer({ openapi: { info } });
+		app.post('/users/:id(\\d+)', (req, res) => res.send({}), {
+			operationId: 'updateUser',
+			summary: 'Update a user',
+			body: { type: 'object', properties: { name: { type: 'string' } } },
+			responses: { 200: { description: 'The updated user' } },
+		});
+
+		const operation = app.getOpenAPIDocument().paths['/users/{id}']!.post;
+
+		expect(operation).toMatchObject({
+			operationId: 'updateUser',
+			summary: 'Update a user',
+			parameters: [
+				{
+					name: 'id',
+					in: 'path',
+					required: true,
+					schema: { type: 'string', pattern: '^(?:\\d+)$' },
+				},
+			],
+			requestBody: {
+				content: { 'application/json': { schema: { type: 'object' } } },
+			},
+		});
+		expect(operation.responses['200'].description).toBe('The updated user');
+	});
+
+	test('lists both forms of a route with an optional segment', () => {
+		const app = createTestServer({ openapi: { info } });
+		app.get('/:lang?/docs', (req, res) => res.send({}), {
+			operationId: 'getDocs',
+		});
+
+		const { paths } = app.getOpenAPIDocument();
+
+		expect(Object.keys(paths)).toEqual(['/{lang}/docs', '/docs']);
+		expect(paths['/{lang}/docs']!.get.operationId).toBe('getDocs');
+		expect(paths['/docs']!.get.operationId).toBeUndefined();
+	});
+
+	test('names wildcard params', () => {
+		const app = createTestServer({ openapi: { info } });
+		app.get('/files/*path', (req, res) => res.send({}));
+		app.get('/assets/*', (req, res) => res.send({}), {
+			params: {
+				type: 'object',
+				properties: { '*': { type: 'string', description: 'Asset path' } },
+			},
+		});
+
+		const { paths } = app.getOpenAPIDocument();
+
+		expect(paths['/files/{path}']!.get.parameters[0].name).toBe('path');
+		expect(paths['/assets/{wildcard}']!.get.parameters).toEqual([
+			{
+				name: 'wildcard',
+				in: 'path',
+				required: true,
+				schema: { type: 'string', description: 'Asset path' },
+			},
+		]);
+	});
+
+	test('leaves out hidden routes and serves the document at its path', async () => {
+		const app = createTestServer({
+			openapi: { info, path: '/openapi.json' },
+		});
+		app.get('/internal', (req, res) => res.send({}), { hidden: true });
+		app.get('/health', (req, res) => res.send({ ok: true }));
+
+		const response = await app.call('/openapi.json');
+
+		expect(response.body).toEqual({
+			openapi: '3.1.0',
+			info,
+			paths: {
+				'/health': { get: { responses: { '200': { description: 'OK' } } } },
+			},
+		});
+	});
+});
@@ -0,0 +1,167 @@
+import type {
+	JsonSchema,
+	OpenAPIDocument,
+	OpenAPIOptions,
+	RouteMeta,
+	SchemaSource,
+} from './server-types';
+import {
+	expandOptionalSegments,
+	parseRoutePattern,
+	type RouteDefinition,
+} from './router';
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function resolveSchema(source: SchemaSource): JsonSchema {
+	return typeof source.toJSONSchema === 'function'
+		? source.toJSONSchema()
+		: source;
+}
+
+type PathParam = {
+	name: string;
+	constraint: string | null;
+	/** The param's key in `req.params`, when it isn't `name` */
+	key?: string;
+};
+
+/**
+ * Turns a route pattern into OpenAPI path templates, e.g. `/users/:id(\\d+)` into
+ * `/users/{id}`. OpenAPI has no optional path params, so `/:lang?/docs` gives
+ * both `/{lang}/docs` and `/docs`. A bare `*`, which isn't a valid param name,
+ * becomes the `{wildcard}` param for `req.params['*']`.
+ */
+function toPathTemplates(
+	path: string
+): Array<{ template: string; params: PathParam[] }> {
+	return expandOptionalSegments(parseRoutePattern(path)).map((segments) => {
+		const params: PathParam[] = [];
+		const template = segments.map((segment) => {
+			if (segment.kind === 'static') return segment.value;
+			if (segment.kind === 'wildcard') {
+				if (segment.name === '*') {
+					params.push({ name: 'wildcard', constraint: null, key: '*' });
+					return '{wildcard}';
+				}
+				params.push({ name: segment.name, constraint: null });
+				return `{${segment.name}}`;
+			}
+			return segment.parts
+				.map((part) => {
+					if (typeof part === 'string') return part;
+					params.push(part);
+					return `{${part.name}}`;
+				})
+				.join('');
+		});
+		return { template: '/' + template.join('/'), params };
+	});
+}
+
+function buildParameters(
+	pathParams: PathParam[],
+	meta: RouteMeta
+): Record<string, any>[] {
+	const paramsSchema = meta.params ? resolveSchema(meta.params) : {};
+	const parameters: Record<string, any>[] = pathParams.map(
+		({ name, constraint, key = name }) => ({
+			name,
+			in: 'path',
+			required: true,
+			schema: paramsSchema.properties?.[key] ?? {
+				type: 'string',
+				...(constraint !== null && { pattern: `^(?:${constraint})$` }),
+			},
+		})
+	);
+
+	if (meta.query) {
+		const querySchema = resolveSchema(meta.query);
+		const required: string[] = querySchema.required ?? [];
+		for (const [name, schema] of Object.entries(querySchema.properties ?? {})) {
+			parameters.push({
+				name,
+				in: 'query',
+				required: required.includes(name),
+				schema,
+			});
+		}
+	}
+
+	return parameters;
+}
+
+function buildResponses(meta: RouteMeta): Record<string, any> {
+	if (!meta.responses) {
+		return { '200': { description: 'OK' } };
+	}
+
+	const responses: Record<string, any> = {};
+	for (const [status, response] of Object.entries(meta.responses)) {
+		responses[status] = {
+			description: response.description ?? '',
+			...(response.schema && {
+				content: {
+					[response.contentType ?? 'application/json']: {
+						schema: resolveSchema(response.schema),
+					},
+				},
+			}),
+		};
+	}
+	return responses;
+}
+
+// ─── Public helpers ───────────────────────────────────────────────────────────
+
+/**
+ * Builds an OpenAPI 3.1 document from registered routes. Routes without metadata
+ * are still listed, with their path params and a bare `200` response.
+ */
+export function createOpenAPIDocument(
+	definitions: RouteDefinition<any>[],
+	{ info, servers }: Omit<OpenAPIOptions, 'path'>
+): OpenAPIDocument {
+	const paths: OpenAPIDocument['paths'] = {};
+
+	for (const { method, path, meta = {} } of definitions) {
+		if (meta.hidden) continue;
+
+		toPathTemplates(path).forEach(({ template, params }, index) => {
+			const parameters = buildParameters(params, meta);
+
+			const operation: Record<string, any> = {
+				// Operation ids must be unique, so only the full form of an optional route gets it
+				...(meta.operationId &&
+					index === 0 && { operationId: meta.operationId }),
+				...(meta.summary && { summary: meta.summary }),
+				...(meta.description && { description: meta.description }),
+				...(meta.tags && { tags: meta.tags }),
+				...(meta.deprecated && { deprecated: true }),
+				...(parameters.length > 0 && { parameters }),
+				...(meta.body && {
+					requestBody: {
+						required: true,
+						content: {
+							[meta.bodyContentType ?? 'application/json']: {
+								schema: resolveSchema(meta.body),
+							},
+						},
+					},
+				}),
+				responses: buildResponses(meta),
+			};
+
+			paths[template] ??= {};
+			paths[template][method.toLowerCase()] = operation;
+		});
+	}
+
+	return {
+		openapi: '3.1.0',
+		info,
+		...(servers && { servers }),
+		paths,
+	};
+}
@@ -0,0 +1,83 @@
+import { describe, expect, test } from 'bun:test';
+import { createServer } from './index';
+import { createClientIpResolver } from './proxy';
+
+function forwardedFor(value: string) {
+	return new Request('http://localhost/', {
+		headers: { 'X-Forwarded-For': value },
+	});
+}
+
+describe('createClientIpResolver', () => {
+	test('uses the connecting address without trustProxy', () => {
+		const resolve = createClientIpResolver();
+
+		expect(resolve(forwardedFor('198.51.100.1'), '10.0.0.2')).toBe('10.0.0.2');
+	});
+
+	test('skips the given number of proxies from the right', () => {
+		const resolve = createClientIpResolver(1);
+		const request = forwardedFor('203.0.113.9, 198.51.100.1');
+
+		expect(resolve(request, '10.0.0.2')).toBe('198.51.100.1');
+		expect(createClientIpResolver(2)(request, '10.0.0.2')).toBe('203.0.113.9');
+	});
+
+	test('skips only listed proxies and CIDR ranges', () => {
+		const resolve = createClientIpResolver(['10.0.0.0/8', '192.0.2.1']);
+
+		expect(
+			resolve(forwardedFor('203.0.113.9, 192.0.2.1, 10.1.2.3'), '10.0.0.2')
+		).toBe('203.0.113.9');
+		expect(resolve(forwardedFor('203.0.113.9'), '198.51.100.7')).toBe(
+			'198.51.100.7'
+		);
+	});
+
+	test('never takes a made-up entry as the client address', () => {
+		const resolve = createClientIpResolver(true);
+
+		expect(resolve(forwardedFor('not-an-ip, 203.0.113.9'), '10.0.0.2')).toBe(
+			'203.0.113.9'
+		);
+		expect(resolve(forwardedFor(''), '10.0.0.2')).toBe('10.0.0.2');
+	});
+
+	test('refuses invalid trusted addresses', () => {
+		expect(() => createClientIpResolver(['10.0.0.0/8', 'proxy.local'])).toThrow(
+			'Invalid trustProxy address: proxy.local'
+		);
+	});
+});
+
+describe('WAF bans behind a proxy', () => {
+	test('score and ban the forwarded client, not the proxy', async () => {
+		const app = createServer({
+			port: 0,
+			enableWaf: true,
+			wafBans: { threshold: 2, status: 429 },
+			trustProxy: ['127.0.0.1', '::1'],
+			accessLog: { info() {}, warn() {}, error() {} },
+		});
+		app.get('/api/items', (req, res) => res.send({ ip: req.ip }));
+		const server = app.start();
+		const get = (pathname: string, ip: string) =>
+			fetch(new URL(pathname, server.url), {
+				headers: { 'X-Forwarded-For': ip },
+			});
+
+		try {
+			await get('/wp-admin/', '203.0.113.9');
+			await get('/.env', '203.0.113.9');
+			const scanner = await get('/api/items', '203.0.113.9');
+			const neighbour = await get('/api/items', '203.0.113.10');
+
+			expect(scanner.status).toBe(429);
+			expect(neighbour.status).toBe(200);
+			expect(await neighbour.json()).toEqual({ ip: '203.0.113.10' });
+			expect(app.getWafStats().banned).toBeGreaterThan(0);
+		} finally {
+			server.stop(true);
+		}
+	});
+});
@@ -0,0 +1,66 @@
+import { BlockList, isIP } from 'net';
+import type { TrustProxy } from './server-types';
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Builds a matcher for trusted proxy addresses and CIDR ranges such as `10.0.0.0/8`. */
+function createAddressMatcher(addresses: string[]): (ip: string) => boolean {
+	const list = new BlockList();
+	for (const entry of addresses) {
+		const [address = '', prefix] = entry.split('/');
+		const family = isIP(address);
+		if (family === 0) {
+			throw new Error(`Invalid trustProxy address: ${entry}`);
+		}
+		const type = family === 4 ? 'ipv4' : 'ipv6';
+		if (prefix === undefined) {
+			list.addAddress(address, type);
+		} else {
+			list.addSubnet(address, Number(prefix), type);
+		}
+	}
+	return (ip) => list.check(ip, isIP(ip) === 4 ? 'ipv4' : 'ipv6');
+}
+
+// ─── Public helpers ───────────────────────────────────────────────────────────
+
+/**
+ * Creates the function that finds a request's client address. Without
+ * `trustProxy` it is the connecting address. Otherwise `X-Forwarded-For` is read
+ * from the right, skipping proxies that are trusted: all of them with `true`,
+ * the nearest `n` with a number, or those listed by address or CIDR range.
+ */
+export function createClientIpResolver(
+	trustProxy: TrustProxy = false
+): (request: Request, remoteAddress: string | null) => string | null {
+	if (trustProxy === false || trustProxy === 0) {
+		return (_request, remoteAddress) => remoteAddress;
+	}
+	const isTrusted =
+		typeof trustProxy === 'object' ? createAddressMatcher(trustProxy) : null;
+
+	return (request, remoteAddress) => {
+		const forwarded = (request.headers.get('X-Forwarded-For') ?? '')
+			.split(',')
+			.map((entry) => entry.trim())
+			.filter(Boolean);
+		// Nearest hop last, starting with the proxy that connected to us
+		const chain = remoteAddress ? [...forwarded, remoteAddress] : forwarded;
+
+		let client = remoteAddress;
+		for (let hop = chain.length - 1, trusted = 0; hop >= 0; hop--) {
+			const address = chain[hop]!;
+			// Anything a client made up can't be used as its address
+			if (isIP(address) === 0) break;
+			client = address;
+
+			const trustsHop =
+				trustProxy === true ||
+				(typeof trustProxy === 'number' && trusted < trustProxy) ||
+				(isTrusted !== null && isTrusted(address));
+			if (!trustsHop) break;
+			trusted++;
+		}
+		return client;
+	};
+}
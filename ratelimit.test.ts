@@ -0,0 +1,127 @@
+import { afterEach, describe, expect, setSystemTime, test } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { createTestServer } from './bun-test-server';
+import {
+	createMemoryRateLimitStore,
+	createRateLimiter,
+	createSqliteRateLimitStore,
+	resolveRateLimitKey,
+} from './ratelimit';
+
+// The start of a 60 second window
+const WINDOW_START = Date.UTC(2025, 0, 1, 12, 0, 0);
+
+afterEach(() => {
+	setSystemTime();
+});
+
+describe.each([
+	['memory', () => createMemoryRateLimitStore()],
+	[
+		'SQLite',
+		() => createSqliteRateLimitStore({ database: new Database(':memory:') }),
+	],
+])('createRateLimiter with the %s store', (_, createStore) => {
+	test('allows up to the limit, then refuses', async () => {
+		setSystemTime(WINDOW_START + 15_000);
+		const limiter = createRateLimiter(
+			{ limit: 2, window: 60, store: createStore() },
+			'test'
+		);
+
+		const first = await limiter.check('ip:1');
+		const second = await limiter.check('ip:1');
+		const third = await limiter.check('ip:1');
+
+		expect(first).toMatchObject({ allowed: true, remaining: 1, reset: 45 });
+		expect(second).toMatchObject({ allowed: true, remaining: 0 });
+		expect(third).toMatchObject({ allowed: false, remaining: 0 });
+		expect(third.retryAfter).toBeGreaterThan(0);
+		expect(third.retryAfter).toBeLessThanOrEqual(60);
+		expect(third.policy).toBe('2;w=60');
+		expect((await limiter.check('ip:2')).allowed).toBe(true);
+	});
+
+	test('does not count refused requests', async () => {
+		setSystemTime(WINDOW_START + 1_000);
+		const limiter = createRateLimiter(
+			{ limit: 2, window: 60, store: createStore() },
+			'test'
+		);
+		await limiter.check('ip:1');
+		await limiter.check('ip:1');
+		for (let i = 0; i < 50; i++) {
+			const refused = await limiter.check('ip:1');
+			expect(refused.retryAfter).toBeLessThanOrEqual(60);
+		}
+
+		// Halfway through the next window, one of the two earlier hits still counts
+		setSystemTime(WINDOW_START + 60_000 + 31_000);
+
+		expect((await limiter.check('ip:1')).allowed).toBe(true);
+	});
+
+	test('never asks for a wait longer than the window', async () => {
+		setSystemTime(WINDOW_START + 1_000);
+		const limiter = createRateLimiter(
+			{ limit: 1, window: 60, store: createStore() },
+			'test'
+		);
+		await limiter.check('ip:1');
+
+		setSystemTime(WINDOW_START + 61_000);
+		const refused = await limiter.check('ip:1');
+
+		expect(refused.allowed).toBe(false);
+		expect(refused.retryAfter).toBe(59);
+		expect(refused.reset).toBe(59);
+	});
+});
+
+describe('resolveRateLimitKey', () => {
+	const request = new Request('http://localhost/', {
+		headers: { 'X-Api-Key': 'k1', Cookie: 'theme=dark; sid=s1' },
+	});
+
+	test('counts by address, header or cookie', async () => {
+		expect(await resolveRateLimitKey('ip', request, '10.0.0.1')).toBe(
+			'ip:10.0.0.1'
+		);
+		expect(
+			await resolveRateLimitKey({ header: 'X-Api-Key' }, request, '10.0.0.1')
+		).toBe('header:k1');
+		expect(await resolveRateLimitKey({ cookie: 'sid' }, request, null)).toBe(
+			'cookie:s1'
+		);
+	});
+
+	test('falls back to the address, or no key without one', async () => {
+		expect(
+			await resolveRateLimitKey({ header: 'X-Missing' }, request, '10.0.0.1')
+		).toBe('ip:10.0.0.1');
+		expect(await resolveRateLimitKey('ip', request, null)).toBeNull();
+	});
+});
+
+describe('rate limited routes', () => {
+	test('answers 429 with Retry-After once the limit is used up', async () => {
+		const app = createTestServer();
+		app.post('/login', (req, res) => res.send({ ok: true }), {
+			rateLimit: { limit: 1, window: 60 },
+		});
+
+		const allowed = await app.call('/login', { method: 'POST' });
+		const refused = await app.call('/login', { method: 'POST' });
+		const otherClient = await app.call('/login', {
+			method: 'POST',
+			ip: '10.0.0.2',
+		});
+
+		expect(allowed.status).toBe(200);
+		expect(allowed.headers['ratelimit-remaining']).toBe('0');
+		expect(allowed.headers['retry-after']).toBeUndefined();
+		expect(refused.status).toBe(429);
+		expect(Number(refused.headers['retry-after'])).toBeLessThanOrEqual(60);
+		expect(otherClient.status).toBe(200);
+	});
+});
@@ -0,0 +1,380 @@
+import { Database } from 'bun:sqlite';
+import type { ServerWebSocket } from 'bun';
+import type {
+	RateLimitCounts,
+	RateLimitKey,
+	RateLimitOptions,
+	RateLimitStore,
+	WebSocketRateLimitOptions,
+} from './server-types';
+import { TooManyRequestsError } from './errors';
+
+// How often stores sweep out counters that no longer count
+const PRUNE_INTERVAL = 60_000;
+
+/** Headers set by `setRateLimitHeaders`, for browsers to be allowed to read them. */
+export const RATE_LIMIT_HEADERS = [
+	'RateLimit-Limit',
+	'RateLimit-Remaining',
+	'RateLimit-Reset',
+	'RateLimit-Policy',
+	'Retry-After',
+];
+
+// Where a socket's `data` carries the client address resolved at upgrade
+const CLIENT_IP = Symbol('clientIp');
+
+/** A key's counters, for the window starting at `windowStart`. */
+type WindowEntry = RateLimitCounts & { windowStart: number };
+
+/** The outcome of counting one request against a limit. */
+export type RateLimitResult = {
+	allowed: boolean;
+	limit: number;
+	remaining: number;
+	/** Seconds until the current window ends, or until a retry can succeed when refused */
+	reset: number;
+	/** Seconds the client should wait before trying again; 0 when allowed */
+	retryAfter: number;
+	/** The `RateLimit-Policy` header value */
+	policy: string;
+};
+
+export type RateLimiter = {
+	/** Counts a request for `key`. */
+	check: (key: string) => Promise<RateLimitResult>;
+};
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Moves `entry` on to the window starting at `windowStart` and counts a hit in it. */
+function countHit(
+	entry: WindowEntry | null,
+	windowStart: number,
+	window: number
+): WindowEntry {
+	if (!entry || entry.windowStart < windowStart - window) {
+		return { windowStart, current: 1, previous: 0 };
+	}
+	if (entry.windowStart < windowStart) {
+		return { windowStart, current: 1, previous: entry.current };
+	}
+	return { ...entry, current: entry.current + 1 };
+}
+
+/**
+ * How far into the future, as a fraction of the window, one more hit would fit
+ * under `limit` once the previous window's share has slid away.
+ */
+function retryFraction(
+	limit: number,
+	{ current, previous }: RateLimitCounts,
+	elapsed: number
+): number {
+	const room = limit - 1;
+	if (current <= room && previous > 0) {
+		// Still in this window, once enough of the previous one has slid out
+		const at = 1 - (room - current) / previous;
+		if (at < 1) return Math.max(0, at - elapsed);
+	}
+	// Otherwise in the next window, once enough of this one has
+	return 1 - elapsed + (current > room ? 1 - room / current : 0);
+}
+
+function readCookie(request: Request, name: string): string | null {
+	for (const pair of (request.headers.get('Cookie') ?? '').split(';')) {
+		const [key, ...value] = pair.trim().split('=');
+		if (key === name) return value.join('=') || null;
+	}
+	return null;
+}
+
+// ─── Public helpers ───────────────────────────────────────────────────────────
+
+/**
+ * Keeps rate limit counters in process memory. Counters are not shared between
+ * processes, so each instance of a multi-instance app enforces its own limit.
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+	const entries = new Map<string, WindowEntry & { expiresAt: number }>();
+
+	setInterval(() => {
+		const now = Date.now();
+		for (const [key, { expiresAt }] of entries) {
+			if (expiresAt <= now) entries.delete(key);
+		}
+	}, PRUNE_INTERVAL).unref();
+
+	return {
+		hit: (key, windowStart, window, accept) => {
+			const entry = countHit(entries.get(key) ?? null, windowStart, window);
+			const counts = { current: entry.current, previous: entry.previous };
+			if (accept(counts)) {
+				// Once the next window has ended too, these hits no longer count
+				entries.set(key, {
+					...entry,
+					expiresAt: entry.windowStart + 2 * window,
+				});
+			}
+			return counts;
+		},
+	};
+}
+
+/**
+ * Keeps rate limit counters in a SQLite table with `bun:sqlite`, so processes
+ * sharing the database file share their limits.
+ *
+ * @param database - a `Database`, or a filename to open (default `ratelimits.sqlite`)
+ */
+export function createSqliteRateLimitStore({
+	database = 'ratelimits.sqlite',
+	table = 'rate_limits',
+}: { database?: Database | string; table?: string } = {}): RateLimitStore {
+	if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+		throw new Error(`Invalid rate limit table name: ${table}`);
+	}
+	const db = typeof database === 'string' ? new Database(database) : database;
+
+	db.run(
+		`CREATE TABLE IF NOT EXISTS ${table} (key TEXT PRIMARY KEY, window_start INTEGER NOT NULL, current INTEGER NOT NULL, previous INTEGER NOT NULL, expires_at INTEGER NOT NULL)`
+	);
+	const select = db.query<
+		{ window_start: number; current: number; previous: number },
+		[string]
+	>(`SELECT window_start, current, previous FROM ${table} WHERE key = ?`);
+	const upsert = db.query(
+		`INSERT INTO ${table} (key, window_start, current, previous, expires_at) VALUES (?, ?, ?, ?, ?) ON CONFLICT(key) DO UPDATE SET window_start = excluded.window_start, current = excluded.current, previous = excluded.previous, expires_at = excluded.expires_at`
+	);
+	const prune = db.query(`DELETE FROM ${table} WHERE expires_at <= ?`);
+
+	// Read and write in one transaction so processes can't lose each other's hits
+	const hit = db.transaction(
+		(
+			key: string,
+			windowStart: number,
+			window: number,
+			accept: (counts: RateLimitCounts) => boolean
+		) => {
+			const row = select.get(key);
+			const entry = countHit(
+				row && {
+					windowStart: row.window_start,
+					current: row.current,
+					previous: row.previous,
+				},
+				windowStart,
+				window
+			);
+			const counts = { current: entry.current, previous: entry.previous };
+			if (accept(counts)) {
+				upsert.run(
+					key,
+					entry.windowStart,
+					entry.current,
+					entry.previous,
+					entry.windowStart + 2 * window
+				);
+			}
+			return counts;
+		}
+	);
+
+	let lastPrune = 0;
+
+	return {
+		hit: (key, windowStart, window, accept) => {
+			const counts = hit.immediate(key, windowStart, window, accept);
+			// Pruning piggybacks on writes, at most once per interval
+			const now = Date.now();
+			if (now - lastPrune > PRUNE_INTERVAL) {
+				lastPrune = now;
+				prune.run(now);
+			}
+			return counts;
+		},
+	};
+}
+
+/**
+ * Creates a sliding-window limiter: hits are counted in fixed windows, and the
+ * previous window's count is weighted by how much of it still overlaps the last
+ * `window` seconds. Refused requests aren't counted, so retrying doesn't push
+ * the limit further out, and `reset` and `retryAfter` never exceed the window.
+ *
+ * @param defaultName - prefixes this limiter's keys in the store, unless `name` is set
+ */
+export function createRateLimiter(
+	{
+		limit,
+		window = 60,
+		store = createMemoryRateLimitStore(),
+		name,
+	}: Pick<RateLimitOptions, 'limit' | 'window' | 'store' | 'name'>,
+	defaultName: string
+): RateLimiter {
+	if (!Number.isInteger(limit) || limit < 1) {
+		throw new Error(`Invalid rate limit: ${limit}`);
+	}
+	if (!(window > 0)) {
+		throw new Error(`Invalid rate limit window: ${window}`);
+	}
+	const windowMs = window * 1000;
+	const policy = `${limit};w=${window}`;
+
+	return {
+		check: async (key) => {
+			const now = Date.now();
+			const windowStart = now - (now % windowMs);
+			const elapsed = (now - windowStart) / windowMs;
+			const usage = ({ current, previous }: RateLimitCounts) =>
+				previous * (1 - elapsed) + current;
+
+			const counts = await store.hit(
+				`${name ?? defaultName}:${key}`,
+				windowStart,
+				windowMs,
+				(next) => usage(next) <= limit
+			);
+			const used = usage(counts);
+			const allowed = used <= limit;
+
+			let retryAfter = 0;
+			if (!allowed) {
+				// The refused hit wasn't recorded, so it doesn't delay the retry
+				const recorded = { ...counts, current: counts.current - 1 };
+				const wait = retryFraction(limit, recorded, elapsed) * window;
+				// The previous window's hits can outlast this one, but a client is never
+				// told to wait longer than the window
+				retryAfter = Math.ceil(Math.min(window, Math.max(1, wait)));
+			}
+
+			return {
+				allowed,
+				limit,
+				remaining: Math.max(0, Math.floor(limit - used)),
+				reset: allowed
+					? Math.max(1, Math.ceil((1 - elapsed) * window))
+					: retryAfter,
+				retryAfter,
+				policy,
+			};
+		},
+	};
+}
+
+/**
+ * Works out who `request` is counted for. Requests without the configured header
+ * or cookie fall back to the client address; null means the request isn't limited.
+ */
+export async function resolveRateLimitKey(
+	key: RateLimitKey = 'ip',
+	request: Request,
+	ip: string | null
+): Promise<string | null> {
+	if (typeof key === 'function') {
+		return await key(request, ip);
+	}
+	if (key !== 'ip') {
+		const value =
+			'header' in key
+				? request.headers.get(key.header)
+				: readCookie(request, key.cookie);
+		if (value) return 'header' in key ? `header:${value}` : `cookie:${value}`;
+	}
+	return ip === null ? null : `ip:${ip}`;
+}
+
+/**
+ * Counts `request` against `limiter`, returning the result for the response
+ * headers, or null when the request has no key to count it by.
+ *
+ * @throws TooManyRequestsError when the limit is exceeded, after calling `onResult`
+ *   so the headers can still be sent with the error response
+ */
+export async function enforceRateLimit(
+	limiter: RateLimiter,
+	options: RateLimitOptions,
+	request: Request,
+	ip: string | null,
+	onResult: (result: RateLimitResult) => void
+): Promise<void> {
+	const key = await resolveRateLimitKey(options.key, request, ip);
+	if (key === null) return;
+	const result = await limiter.check(key);
+	onResult(result);
+	if (!result.allowed) {
+		throw new TooManyRequestsError(undefined, {
+			retryAfter: String(result.retryAfter),
+		});
+	}
+}
+
+/** Keeps whichever of two results leaves the client less room, for the response headers. */
+export function pickRateLimitResult(
+	current: RateLimitResult | undefined,
+	next: RateLimitResult
+): RateLimitResult {
+	if (!current) return next;
+	if (current.allowed !== next.allowed) return next.allowed ? current : next;
+	return next.remaining < current.remaining ? next : current;
+}
+
+/** Sets the `RateLimit-*` headers, and `Retry-After` when the request was refused. */
+export function setRateLimitHeaders(
+	headers: Headers,
+	result: RateLimitResult
+): void {
+	headers.set('RateLimit-Limit', String(result.limit));
+	headers.set('RateLimit-Remaining', String(result.remaining));
+	headers.set('RateLimit-Reset', String(result.reset));
+	headers.set('RateLimit-Policy', result.policy);
+	if (!result.allowed) {
+		headers.set('Retry-After', String(result.retryAfter));
+	}
+}
+
+/**
+ * Adds the client address to a socket's upgrade `data`, for `key: 'ip'` to count
+ * by the address `trustProxy` resolved. It is hidden from enumeration; data that
+ * isn't an object is replaced with one.
+ */
+export function withClientIp(data: unknown, ip: string | null): object {
+	const target = typeof data === 'object' && data !== null ? data : {};
+	// A frozen object can't carry it; the connecting address is used instead
+	if (Object.isExtensible(target)) {
+		Object.defineProperty(target, CLIENT_IP, { value: ip });
+	}
+	return target;
+}
+
+/**
+ * Creates the limiter for WebSocket messages. Messages are counted per connection
+ * by default, by client address with `'ip'`, or by what `key` returns.
+ * Returns whether `ws` may send another message.
+ */
+export function createWebSocketRateLimiter(
+	options: WebSocketRateLimitOptions
+): (ws: ServerWebSocket<any>) => Promise<boolean> {
+	const limiter = createRateLimiter(options, 'websocket');
+	const connectionIds = new WeakMap<object, string>();
+	const { key = 'connection' } = options;
+
+	return async (ws) => {
+		let id: string | null;
+		if (key === 'connection') {
+			id = connectionIds.get(ws) ?? null;
+			if (!id) {
+				id = crypto.randomUUID();
+				connectionIds.set(ws, id);
+			}
+		} else if (key === 'ip') {
+			const ip: string | null =
+				ws.data?.[CLIENT_IP] ?? ws.remoteAddress ?? null;
+			id = ip ? `ip:${ip}` : null;
+		} else {
+			id = key(ws);
+		}
+		return id === null || (await limiter.check(id)).allowed;
+	};
+}
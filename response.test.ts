@@ -0,0 +1,129 @@
+import { describe, expect, test } from 'bun:test';
+import { createTestServer } from './bun-test-server';
+
+describe('HEAD requests', () => {
+	test('are answered by the GET handler without a body', async () => {
+		const app = createTestServer();
+		app.get('/users', (req, res) => res.send({ users: ['ada'] }));
+
+		const get = await app.call('/users');
+		const head = await app.call('/users', { method: 'HEAD' });
+
+		expect(head.status).toBe(200);
+		expect(head.body).toBeNull();
+		expect(head.headers['content-type']).toBe(get.headers['content-type']);
+		expect(head.headers['content-length']).toBe(
+			String(JSON.stringify(get.body).length)
+		);
+	});
+
+	test('use a HEAD handler when one is registered', async () => {
+		const app = createTestServer();
+		app.get('/report', (req, res) => res.send('full report'));
+		app.head('/report', (req, res) => {
+			res.setHeader('X-Report-Size', '11');
+			return res.send('');
+		});
+
+		const head = await app.call('/report', { method: 'HEAD' });
+
+		expect(head.headers['x-report-size']).toBe('11');
+	});
+
+	test('are listed in Allow for GET routes', async () => {
+		const app = createTestServer();
+		app.get('/items', (req, res) => res.send([]));
+		app.post('/items', (req, res) => res.send({}));
+
+		const options = await app.call('/items', { method: 'OPTIONS' });
+
+		expect(options.status).toBe(204);
+		expect(options.headers.allow).toBe('GET, POST, HEAD');
+	});
+});
+
+describe('conditional GET', () => {
+	test('adds a weak ETag and answers a matching If-None-Match with 304', async () => {
+		const app = createTestServer();
+		app.get('/feed', (req, res) => res.send({ items: [1, 2, 3] }));
+
+		const first = await app.call('/feed');
+		const etag = first.headers.etag!;
+		const again = await app.call('/feed', {
+			headers: { 'If-None-Match': `"other", ${etag}` },
+		});
+
+		expect(etag).toMatch(/^W\/".+"$/);
+		expect(again.status).toBe(304);
+		expect(again.body).toBeNull();
+		expect(again.headers.etag).toBe(etag);
+		expect(again.headers['content-type']).toBeUndefined();
+	});
+
+	test('sends the full body when the ETag changed', async () => {
+		const app = createTestServer();
+		let version = 1;
+		app.get('/feed', (req, res) => res.send({ version }));
+
+		const { headers } = await app.call('/feed');
+		version = 2;
+		const changed = await app.call('/feed', {
+			headers: { 'If-None-Match': headers.etag! },
+		});
+
+		expect(changed.status).toBe(200);
+		expect(changed.body).toEqual({ version: 2 });
+	});
+
+	test('uses setETag and setLastModified from the handler', async () => {
+		const app = createTestServer();
+		const updatedAt = new Date('2024-05-01T12:00:00Z');
+		app.get('/article', (req, res) => {
+			res.setETag('v7');
+			res.setLastModified(updatedAt);
+			return res.send('article');
+		});
+
+		const plain = await app.call('/article');
+		const byTag = await app.call('/article', {
+			headers: { 'If-None-Match': 'W/"v7"' },
+		});
+		const byDate = await app.call('/article', {
+			headers: { 'If-Modified-Since': 'Wed, 01 May 2024 13:00:00 GMT' },
+		});
+		const stale = await app.call('/article', {
+			headers: { 'If-Modified-Since': 'Wed, 01 May 2024 11:00:00 GMT' },
+		});
+
+		expect(plain.headers.etag).toBe('"v7"');
+		expect(plain.headers['last-modified']).toBe(updatedAt.toUTCString());
+		expect(byTag.status).toBe(304);
+		expect(byDate.status).toBe(304);
+		expect(stale.status).toBe(200);
+	});
+
+	test('can be turned off with etag: false', async () => {
+		const app = createTestServer({ etag: false });
+		app.get('/feed', (req, res) => res.send({ items: [] }));
+
+		const response = await app.call('/feed', {
+			headers: { 'If-None-Match': '*' },
+		});
+
+		expect(response.status).toBe(200);
+		expect(response.headers.etag).toBeUndefined();
+	});
+
+	test('leave other methods alone', async () => {
+		const app = createTestServer();
+		app.post('/feed', (req, res) => res.send({ created: true }));
+
+		const response = await app.call('/feed', {
+			method: 'POST',
+			headers: { 'If-None-Match': '*' },
+		});
+
+		expect(response.status).toBe(200);
+		expect(response.headers.etag).toBeUndefined();
+	});
+});
@@ -0,0 +1,311 @@
+import type { BodyInit } from 'bun';
+import type {
+	CookieOptions,
+	ResponseHandler,
+	SSEOptions,
+} from './server-types';
+import { BunServerError } from './errors';
+import { createSSEStream } from './sse';
+import type { CookieSigner } from './cookies';
+
+/** Formats `value` as an entity tag, leaving already quoted tags alone. */
+function formatETag(value: string, weak: boolean): string {
+	if (/^(W\/)?"/.test(value)) return value;
+	return `${weak ? 'W/' : ''}"${value}"`;
+}
+
+function opaqueTag(tag: string): string {
+	return tag.trim().replace(/^W\//, '');
+}
+
+/** Bytes `new Response(body)` would send, or null for a stream of unknown length. */
+function getBodySize(body: unknown): number | null {
+	if (body === undefined || body === null) return 0;
+	if (body instanceof ReadableStream) return null;
+	if (body instanceof Blob) return body.size;
+	if (body instanceof ArrayBuffer || ArrayBuffer.isView(body))
+		return body.byteLength;
+	return Buffer.byteLength(String(body));
+}
+
+export function serializeCookie(
+	name: string,
+	value: string,
+	options?: CookieOptions
+): string {
+	let cookie = `${name}=${encodeURIComponent(value)}`;
+
+	if (options) {
+		if (options.path) cookie += `; Path=${options.path}`;
+		if (options.maxAge) cookie += `; Max-Age=${options.maxAge}`;
+		if (options.expires) cookie += `; Expires=${options.expires.toUTCString()}`;
+		if (options.httpOnly) cookie += `; HttpOnly`;
+		if (options.secure) cookie += `; Secure`;
+		if (options.sameSite) cookie += `; SameSite=${options.sameSite}`;
+		if (options.domain) cookie += `; Domain=${options.domain}`;
+	}
+
+	return cookie;
+}
+
+/** A `Set-Cookie` value that makes the browser delete the cookie. */
+export function serializeExpiredCookie(
+	name: string,
+	options?: Pick<CookieOptions, 'domain' | 'path'>
+): string {
+	let cookie = `${name}=; Max-Age=0`;
+
+	if (options) {
+		if (options.path) cookie += `; Path=${options.path}`;
+		if (options.domain) cookie += `; Domain=${options.domain}`;
+	}
+
+	return cookie;
+}
+
+/**
+ * True when the client's cached copy, described by its `If-None-Match` or
+ * `If-Modified-Since` header, is still current. `If-None-Match` takes precedence
+ * and uses weak comparison, as RFC 9110 requires for GET and HEAD.
+ */
+export function isNotModified(request: Request, headers: Headers): boolean {
+	const ifNoneMatch = request.headers.get('If-None-Match');
+	if (ifNoneMatch) {
+		const etag = headers.get('ETag');
+		if (!etag) return false;
+		if (ifNoneMatch.trim() === '*') return true;
+		return ifNoneMatch
+			.split(',')
+			.some((tag) => opaqueTag(tag) === opaqueTag(etag));
+	}
+
+	const ifModifiedSince = Date.parse(
+		request.headers.get('If-Modified-Since') ?? ''
+	);
+	const lastModified = Date.parse(headers.get('Last-Modified') ?? '');
+	return (
+		!isNaN(ifModifiedSince) &&
+		!isNaN(lastModified) &&
+		lastModified <= ifModifiedSince
+	);
+}
+
+/**
+ * Creates the `res` object handed to middleware and route handlers.
+ * Headers, status and cookies set on it are applied by `send` and `redirect`.
+ */
+export function createResponseHandler({
+	request,
+	globalHeaders,
+	allowedRedirectHosts,
+	etag = true,
+	cookieSigner,
+}: {
+	request: Request;
+	globalHeaders: Record<string, any>;
+	/**
+	 * Hostnames that absolute-URL redirects may point at.
+	 * @see createServer
+	 */
+	allowedRedirectHosts?: string[];
+	/** Add weak ETags to string and JSON responses to GET and HEAD requests. */
+	etag?: boolean;
+	/** Signs and encrypts cookies set with `signed` or `encrypted`. */
+	cookieSigner?: CookieSigner;
+}): ResponseHandler {
+	const headers: Record<string, string> = {};
+	let sent = false;
+	let status = 200;
+	const cookieHeaders: string[] = [];
+	// Signed and encrypted cookies still being computed
+	let pendingCookies = 0;
+
+	function warnPendingCookies() {
+		if (pendingCookies > 0) {
+			console.warn(
+				'Response sent before a signed or encrypted cookie was ready; await res.setCookie() to include it'
+			);
+		}
+	}
+
+	function mergeHeaders(): Headers {
+		warnPendingCookies();
+		const mergedHeaders = new Headers({
+			...globalHeaders,
+			...headers,
+		});
+
+		// Add each cookie as a separate Set-Cookie header
+		cookieHeaders.forEach((cookie) => {
+			mergedHeaders.append('Set-Cookie', cookie);
+		});
+		return mergedHeaders;
+	}
+
+	function setHeader(key: string, value: string) {
+		if (!sent) {
+			headers[key] = value;
+		} else {
+			console.warn('Headers already sent');
+		}
+	}
+
+	return {
+		setStatus: (statusCode: number) => {
+			status = statusCode;
+		},
+		setCookie: ((name: string, value: string, options?: CookieOptions) => {
+			if (!options?.signed && !options?.encrypted) {
+				cookieHeaders.push(serializeCookie(name, value, options));
+				return;
+			}
+			if (!cookieSigner) {
+				throw new Error(
+					'Signed and encrypted cookies require the cookieSecrets server option'
+				);
+			}
+
+			// WebCrypto is async, so these cookies are added once the promise resolves
+			pendingCookies++;
+			const protect = options.encrypted
+				? cookieSigner.encrypt
+				: cookieSigner.sign;
+			return protect(name, value)
+				.then((protectedValue) => {
+					cookieHeaders.push(serializeCookie(name, protectedValue, options));
+				})
+				.finally(() => {
+					pendingCookies--;
+				});
+		}) as ResponseHandler['setCookie'],
+		deleteCookie: (
+			name: string,
+			options?: Pick<CookieOptions, 'domain' | 'path'>
+		) => {
+			cookieHeaders.push(serializeExpiredCookie(name, options));
+		},
+		setHeader,
+		setETag: (value: string, options?: { weak?: boolean }) => {
+			setHeader('ETag', formatETag(value, options?.weak ?? false));
+		},
+		setLastModified: (date: Date | number | string) => {
+			setHeader('Last-Modified', new Date(date).toUTCString());
+		},
+		redirect: (location: string, statusCode: number = 302) => {
+			let isAbsolute = false;
+			try {
+				const parsed = new URL(location);
+				isAbsolute = true;
+				if (allowedRedirectHosts && allowedRedirectHosts.length > 0) {
+					if (!allowedRedirectHosts.includes(parsed.hostname)) {
+						console.error(
+							`[SECURITY] Redirect to disallowed host blocked: ${parsed.hostname}`
+						);
+						throw new BunServerError('Redirect to disallowed host', 403);
+					}
+				}
+			} catch (e) {
+				if (e instanceof BunServerError) throw e;
+				// Relative URL — always allowed
+			}
+
+			if (!isAbsolute && !location.startsWith('/')) {
+				console.error(
+					`[SECURITY] Redirect to ambiguous URL blocked: ${location}`
+				);
+				throw new BunServerError('Invalid redirect URL', 400);
+			}
+
+			sent = true;
+			warnPendingCookies();
+			const mergedHeaders = new Headers({
+				Location: location,
+				...globalHeaders,
+				...headers,
+			});
+
+			cookieHeaders.forEach((cookie) => {
+				mergedHeaders.append('Set-Cookie', cookie);
+			});
+
+			return new Response(null, {
+				status: statusCode,
+				headers: mergedHeaders,
+			});
+		},
+		send: (data: any) => {
+			sent = true;
+
+			let body: BodyInit;
+			const mergedHeaders = mergeHeaders();
+
+			// Handle ArrayBuffer and binary data first
+			if (
+				data instanceof ArrayBuffer ||
+				data instanceof Blob ||
+				data instanceof ReadableStream
+			) {
+				body = data;
+				// Content-Type should already be set by the handler
+			} else if (typeof data === 'string') {
+				body = data;
+				if (!mergedHeaders.has('Content-Type')) {
+					mergedHeaders.set('Content-Type', 'text/html'); // default to HTML for strings
+				}
+			} else if (typeof data === 'object') {
+				body = JSON.stringify(data);
+				if (!mergedHeaders.has('Content-Type')) {
+					mergedHeaders.set('Content-Type', 'application/json');
+				}
+			} else {
+				body = data; // Fallback for any other type
+				if (!mergedHeaders.has('Content-Type')) {
+					mergedHeaders.set('Content-Type', 'application/octet-stream');
+				}
+			}
+
+			// Conditional GET: answer 304 when the client's copy is still current
+			if (
+				(request.method === 'GET' || request.method === 'HEAD') &&
+				status === 200
+			) {
+				if (etag && typeof body === 'string' && !mergedHeaders.has('ETag')) {
+					mergedHeaders.set('ETag', `W/"${Bun.hash(body).toString(36)}"`);
+				}
+				if (isNotModified(request, mergedHeaders)) {
+					mergedHeaders.delete('Content-Type');
+					mergedHeaders.delete('Content-Length');
+					return new Response(null, {
+						status: 304,
+						headers: mergedHeaders,
+					});
+				}
+			}
+
+			// HEAD: same headers as GET, no body, but keep the length the body would have had
+			if (request.method === 'HEAD') {
+				const size = getBodySize(body);
+				if (size !== null) {
+					mergedHeaders.set('Content-Length', String(size));
+				}
+				return new Response(null, {
+					status,
+					headers: mergedHeaders,
+				});
+			}
+
+			// @ts-ignore: Todo - fix this
+			return new Response(body, {
+				status,
+				headers: mergedHeaders,
+			});
+		},
+		sse: (options?: SSEOptions) => {
+			sent = true;
+			return createSSEStream(request, options, {
+				status,
+				headers: mergeHeaders(),
+			});
+		},
+	};
+}
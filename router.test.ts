@@ -0,0 +1,322 @@
+import { describe, expect, expectTypeOf, test } from 'bun:test';
+import { createTestServer } from './bun-test-server';
+import { createRouteTree, createRouter } from './router';
+import type { PathParams } from './server-types';
+
+describe('createRouteTree', () => {
+	test('prefers static over param over wildcard segments', () => {
+		const tree = createRouteTree<string>();
+		tree.add('GET', '/files/*path', 'wildcard');
+		tree.add('GET', '/files/:id', 'param');
+		tree.add('GET', '/files/latest', 'static');
+
+		expect(tree.match('GET', '/files/latest')?.value).toBe('static');
+		expect(tree.match('GET', '/files/42')).toEqual({
+			pathKey: '/files/:id',
+			value: 'param',
+			params: { id: '42' },
+		});
+		expect(tree.match('GET', '/files/a/b%20c')).toEqual({
+			pathKey: '/files/*path',
+			value: 'wildcard',
+			params: { path: 'a/b c' },
+		});
+	});
+
+	test('backtracks to a route with a handler for the method', () => {
+		const tree = createRouteTree<string>();
+		tree.add('GET', '/users/me', 'me');
+		tree.add('DELETE', '/users/:id', 'delete');
+
+		expect(tree.match('DELETE', '/users/me')?.value).toBe('delete');
+		expect(tree.match('GET', '/users/me')?.value).toBe('me');
+	});
+
+	test('tries constrained params before bare ones', () => {
+		const tree = createRouteTree<string>();
+		tree.add('GET', '/posts/:slug', 'slug');
+		tree.add('GET', '/posts/:id(\\d+)', 'id');
+
+		expect(tree.match('GET', '/posts/12')?.value).toBe('id');
+		expect(tree.match('GET', '/posts/hello')?.value).toBe('slug');
+	});
+
+	test('matches optional segments both ways', () => {
+		const tree = createRouteTree<string>();
+		tree.add('GET', '/:lang?/docs', 'docs');
+
+		expect(tree.match('GET', '/en/docs')?.params).toEqual({ lang: 'en' });
+		expect(tree.match('GET', '/docs')?.params).toEqual({});
+	});
+
+	test('reports the pattern each method was registered under', () => {
+		const tree = createRouteTree<string>();
+		tree.add('GET', '/:lang?/docs', 'list');
+		tree.add('POST', '/docs', 'create');
+
+		expect(tree.match('GET', '/docs')?.pathKey).toBe('/:lang?/docs');
+		expect(tree.match('POST', '/docs')?.pathKey).toBe('/docs');
+	});
+
+	test('falls back to GET for HEAD', () => {
+		const tree = createRouteTree<string>();
+		tree.add('GET', '/health', 'get');
+
+		expect(tree.match('HEAD', '/health')?.value).toBe('get');
+		expect(tree.allowedMethods('/health')).toEqual(['GET', 'HEAD']);
+	});
+
+	test('throws on conflicting registrations', () => {
+		const tree = createRouteTree<string>();
+		tree.add('GET', '/users/:id', 'user');
+
+		expect(() => tree.add('GET', '/users/:id', 'again')).toThrow(
+			'Route conflict: GET "/users/:id" is already registered as "/users/:id"'
+		);
+		expect(() => tree.add('GET', '/users/:userId/posts', 'posts')).toThrow(
+			'Route conflict'
+		);
+		expect(() => tree.add('GET', '/files/*rest/meta', 'meta')).toThrow();
+	});
+});
+
+describe('route patterns', () => {
+	test('capture several params from one segment', () => {
+		const tree = createRouteTree<string>();
+		tree.add('GET', '/docs/:file.:ext', 'doc');
+		tree.add('GET', '/flights/:from-:to', 'flight');
+
+		expect(tree.match('GET', '/docs/intro.md')?.params).toEqual({
+			file: 'intro',
+			ext: 'md',
+		});
+		expect(tree.match('GET', '/flights/LHR-JFK')?.params).toEqual({
+			from: 'LHR',
+			to: 'JFK',
+		});
+		expect(tree.match('GET', '/docs/intro')).toBeNull();
+	});
+
+	test('percent-decode params', () => {
+		const tree = createRouteTree<string>();
+		tree.add('GET', '/users/:name', 'user');
+
+		expect(tree.match('GET', '/users/J%C3%BCrgen%20K')?.params).toEqual({
+			name: 'Jürgen K',
+		});
+	});
+
+	test('are exposed through getParams, including named wildcards', async () => {
+		const app = createTestServer();
+		app.get('/posts/:id(\\d+)', (req, res) => res.send(req.getParams()));
+		app.get('/files/*path', (req, res) => res.send(req.getParams()));
+
+		const post = await app.call('/posts/12');
+		const notAPost = await app.call('/posts/hello');
+		const file = await app.call('/files/reports/2024/q1.pdf');
+
+		expect(post.body).toEqual({ id: '12' });
+		expect(notAPost.status).toBe(404);
+		expect(file.body).toEqual({ path: 'reports/2024/q1.pdf' });
+	});
+});
+
+describe('createRouter', () => {
+	test('refuses to mount a router inside itself', () => {
+		const api = createRouter<{}>();
+		const v1 = createRouter<{}>();
+		api.mount('/v1', v1);
+
+		expect(() => v1.mount('/api', api)).toThrow(
+			'A router cannot be mounted on itself or on a router mounted inside it'
+		);
+	});
+});
+
+describe('route groups and routers', () => {
+	test('scopes pre-request handlers, error handlers and headers to the group', async () => {
+		const app = createTestServer();
+		app.get('/public', (req, res) => res.send({ ok: true }));
+		app.group(
+			'/admin',
+			(admin) => {
+				admin.addPreRequestHandler((req) => req.cookies['role'] === 'admin');
+				admin.onError(
+					({ status }) =>
+						new Response('Admin error', {
+							status: status ?? 500,
+							headers: { 'Content-Type': 'text/plain' },
+						})
+				);
+				admin.get('/users', (req, res) => res.send({ users: [] }));
+				admin.get('/fail', () => {
+					throw new Error('boom');
+				});
+			},
+			{ globalHeaders: { 'Cache-Control': 'no-store' } }
+		);
+
+		const publicPage = await app.call('/public');
+		const refused = await app.call('/admin/users');
+		const users = await app.call('/admin/users', {
+			cookies: { role: 'admin' },
+		});
+		const failed = await app.call('/admin/fail', {
+			cookies: { role: 'admin' },
+		});
+
+		expect(publicPage.status).toBe(200);
+		expect(publicPage.headers['cache-control']).toBeUndefined();
+		expect(refused.status).toBe(400);
+		expect(refused.body).toBe('Admin error');
+		expect(users.body).toEqual({ users: [] });
+		expect(users.headers['cache-control']).toBe('no-store');
+		expect(failed.status).toBe(500);
+		expect(failed.body).toBe('Admin error');
+	});
+
+	test('mounts routers with params in their prefix, including routes added later', async () => {
+		const app = createTestServer();
+		const members = createRouter<{}, { orgId: string }>();
+		members.get('/', (req, res) => res.send({ orgId: req.params.orgId }));
+		app.mount('/orgs/:orgId/members', members);
+		members.get('/:memberId', (req, res) => res.send(req.params));
+
+		const list = await app.call('/orgs/acme/members');
+		const member = await app.call('/orgs/acme/members/7');
+
+		expect(list.body).toEqual({ orgId: 'acme' });
+		expect(member.body).toEqual({ orgId: 'acme', memberId: '7' });
+	});
+});
+
+describe('middleware', () => {
+	test('wraps handlers in registration order and can change the response', async () => {
+		const app = createTestServer();
+		const order: string[] = [];
+		app.use(async (req, res, next) => {
+			order.push('outer in');
+			const response = await next();
+			order.push('outer out');
+			response.headers.set('X-Outer', 'yes');
+			return response;
+		});
+		app.use(async (req, res, next) => {
+			order.push('inner in');
+			const response = await next();
+			order.push('inner out');
+			return response;
+		});
+		app.get('/', (req, res) => {
+			order.push('handler');
+			return res.send({ ok: true });
+		});
+
+		const response = await app.call('/');
+
+		expect(order).toEqual([
+			'outer in',
+			'inner in',
+			'handler',
+			'inner out',
+			'outer out',
+		]);
+		expect(response.headers['x-outer']).toBe('yes');
+	});
+
+	test('short-circuits without calling next', async () => {
+		const app = createTestServer();
+		let handled = false;
+		app.use((req, res) => {
+			res.setStatus(401);
+			return res.send({ error: 'Unauthorized' });
+		});
+		app.get('/', (req, res) => {
+			handled = true;
+			return res.send({ ok: true });
+		});
+
+		const response = await app.call('/');
+
+		expect(response.status).toBe(401);
+		expect(handled).toBe(false);
+	});
+
+	test('sees errors thrown further down as a rejected next()', async () => {
+		const app = createTestServer();
+		app.use(async (req, res, next) => {
+			try {
+				return await next();
+			} catch {
+				res.setStatus(503);
+				return res.send({ error: 'Try again later' });
+			}
+		});
+		app.get('/', () => {
+			throw new Error('boom');
+		});
+
+		const response = await app.call('/');
+
+		expect(response.status).toBe(503);
+		expect(response.body).toEqual({ error: 'Try again later' });
+	});
+
+	test('only wraps routes of the group it was registered on', async () => {
+		const app = createTestServer();
+		app.group('/api', (api) => {
+			api.use(async (req, res, next) => {
+				const response = await next();
+				response.headers.set('X-Api', 'yes');
+				return response;
+			});
+			api.get('/items', (req, res) => res.send([]));
+		});
+		app.get('/home', (req, res) => res.send({}));
+
+		expect((await app.call('/api/items')).headers['x-api']).toBe('yes');
+		expect((await app.call('/home')).headers['x-api']).toBeUndefined();
+	});
+});
+
+describe('typed path params', () => {
+	test('are inferred from the route pattern', () => {
+		expectTypeOf<
+			PathParams<'/orgs/:orgId/users/:userId'>
+		>().branded.toEqualTypeOf<{
+			orgId: string;
+			userId: string;
+		}>();
+		expectTypeOf<PathParams<'/:lang?/docs/:file.:ext'>>().branded.toEqualTypeOf<
+			{ file: string; ext: string } & { lang?: string }
+		>();
+		expectTypeOf<PathParams<'/posts/:id(\\d+)'>>().branded.toEqualTypeOf<{
+			id: string;
+		}>();
+		expectTypeOf<PathParams<'/files/*path'>>().branded.toEqualTypeOf<{
+			path: string;
+		}>();
+		expectTypeOf<PathParams<'/assets/*'>>().branded.toEqualTypeOf<{
+			'*': string;
+		}>();
+		expectTypeOf<PathParams<string>>().branded.toEqualTypeOf<
+			Record<string, string>
+		>();
+	});
+
+	test('include the params of group prefixes', async () => {
+		const app = createTestServer();
+		app.group('/orgs/:orgId', (org) => {
+			org.get('/teams/:teamId', (req, res) => {
+				expectTypeOf(req.params).branded.toEqualTypeOf<
+					{ orgId: string } & { teamId: string }
+				>();
+				return res.send(req.params);
+			});
+		});
+
+		const response = await app.call('/orgs/acme/teams/7');
+
+		expect(response.body).toEqual({ orgId: 'acme', teamId: '7' });
+	});
+});
@@ -0,0 +1,743 @@
+import type {
+	BunRouter,
+	CorsOptions,
+	ErrorHandler,
+	HandlerFunc,
+	Middleware,
+	PathParams,
+	PreRequestHandler,
+	RequestHandler,
+	ResponseHandler,
+	RouteMeta,
+	RouterOptions,
+	ValidMethods,
+} from './server-types';
+
+// ─── Internal types ───────────────────────────────────────────────────────────
+
+type RouteNode<T> = {
+	/** Children keyed by their literal segment, e.g. `users` in `/users/:id`. */
+	staticChildren: Map<string, RouteNode<T>>;
+	/** Children for segments with params, tried in order: constrained or mixed ones first. */
+	paramChildren: ParamChild<T>[];
+	/** Child for a trailing `*` or `*name` segment, which captures the rest of the path. */
+	wildcardChild: RouteNode<T> | null;
+	wildcardName: string | null;
+	/**
+	 * Handlers by method, each with the pattern it was registered under, e.g.
+	 * `/users/:id`. Optional segments let different patterns end at one node.
+	 */
+	handlers: Map<ValidMethods, { pathKey: string; value: T }>;
+};
+
+type ParamChild<T> = {
+	/** The segment as written in the route, e.g. `:file.:ext`. */
+	source: string;
+	/** The segment with its param names removed; two segments with the same shape are ambiguous. */
+	shape: string;
+	names: string[];
+	regex: RegExp;
+	/** A lone unconstrained param like `:id`, which matches any segment. */
+	bare: boolean;
+	node: RouteNode<T>;
+};
+
+export type SegmentPart = string | { name: string; constraint: string | null };
+
+/** One `/`-separated segment of a route pattern. */
+export type SegmentPattern =
+	| { kind: 'static'; value: string }
+	| { kind: 'param'; source: string; parts: SegmentPart[]; optional: boolean }
+	| { kind: 'wildcard'; name: string };
+
+export type RouteMatch<T> = {
+	/** The registered route pattern that matched, e.g. `/users/:id`. */
+	pathKey: string;
+	value: T;
+	params: Record<string, string>;
+};
+
+/** Per-router settings that apply to every route registered through that router. */
+export type RouteScope<StateType> = {
+	middleware: Middleware<StateType>[];
+	preRequestHandlers: PreRequestHandler<StateType>[];
+	errorHandler: ErrorHandler | null;
+	globalHeaders: Record<string, any>;
+	cors: CorsOptions | null;
+};
+
+/** What the server stores in the route tree for each registered route. */
+export type RouteEntry<StateType> = {
+	handler: HandlerFunc<StateType>;
+	/** Scopes of every router the route passes through, outermost first. */
+	scopes: RouteScope<StateType>[];
+	meta?: RouteMeta;
+};
+
+export type RouteDefinition<StateType> = RouteEntry<StateType> & {
+	method: ValidMethods;
+	path: string;
+};
+
+type RouterInternals<StateType> = {
+	scope: RouteScope<StateType>;
+	definitions: RouteDefinition<StateType>[];
+	listeners: Array<(definition: RouteDefinition<StateType>) => void>;
+	/** Routers mounted on this one, to catch a router being mounted into its own tree. */
+	mounted: RouterInternals<StateType>[];
+};
+
+const METHOD_ORDER: readonly ValidMethods[] = [
+	'GET',
+	'POST',
+	'PUT',
+	'PATCH',
+	'DELETE',
+	'OPTIONS',
+	'HEAD',
+	'CONNECT',
+	'TRACE',
+];
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function createNode<T>(): RouteNode<T> {
+	return {
+		staticChildren: new Map(),
+		paramChildren: [],
+		wildcardChild: null,
+		wildcardName: null,
+		handlers: new Map(),
+	};
+}
+
+function splitPath(path: string): string[] {
+	return path.split('/').filter(Boolean);
+}
+
+function decodeSegment(segment: string): string {
+	try {
+		return decodeURIComponent(segment);
+	} catch {
+		// Malformed escapes are passed through as sent
+		return segment;
+	}
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Returns the index of the `)` closing the `(` at `start`, or -1. */
+function findClosingParen(text: string, start: number): number {
+	let depth = 0;
+	for (let i = start; i < text.length; i++) {
+		if (text[i] === '\\') {
+			i++;
+		} else if (text[i] === '(') {
+			depth++;
+		} else if (text[i] === ')' && --depth === 0) {
+			return i;
+		}
+	}
+	return -1;
+}
+
+function parseSegment(segment: string, path: string): SegmentPattern {
+	if (segment.startsWith('*')) {
+		const name = segment.slice(1) || '*';
+		if (!/^(\*|\w+)$/.test(name)) {
+			throw new Error(`Invalid wildcard "${segment}" in "${path}"`);
+		}
+		return { kind: 'wildcard', name };
+	}
+
+	if (!segment.includes(':')) {
+		return { kind: 'static', value: segment };
+	}
+
+	const parts: SegmentPart[] = [];
+	let literal = '';
+	let i = 0;
+	while (i < segment.length) {
+		if (segment[i] !== ':') {
+			literal += segment[i++];
+			continue;
+		}
+
+		const name = /^\w+/.exec(segment.slice(i + 1))?.[0];
+		if (!name) {
+			throw new Error(`Missing parameter name in "${segment}" in "${path}"`);
+		}
+		i += name.length + 1;
+
+		let constraint: string | null = null;
+		if (segment[i] === '(') {
+			const end = findClosingParen(segment, i);
+			if (end === -1) {
+				throw new Error(`Unclosed constraint for ":${name}" in "${path}"`);
+			}
+			constraint = segment.slice(i + 1, end);
+			i = end + 1;
+		}
+
+		if (literal) parts.push(literal);
+		literal = '';
+		parts.push({ name, constraint });
+	}
+	if (literal) parts.push(literal);
+
+	const optional =
+		parts.length === 2 && typeof parts[0] !== 'string' && parts[1] === '?';
+	if (optional) {
+		parts.pop();
+	} else if (
+		parts.some((part) => typeof part === 'string' && part.includes('?'))
+	) {
+		throw new Error(
+			`Only a lone parameter can be optional, got "${segment}" in "${path}"`
+		);
+	}
+
+	return { kind: 'param', source: segment, parts, optional };
+}
+
+/**
+ * Parses a route pattern into its segments. Throws for malformed segments and
+ * for a wildcard that is not the last segment.
+ */
+export function parseRoutePattern(path: string): SegmentPattern[] {
+	const segments = splitPath(path).map((segment) =>
+		parseSegment(segment, path)
+	);
+	const wildcardIndex = segments.findIndex(
+		(segment) => segment.kind === 'wildcard'
+	);
+	if (wildcardIndex !== -1 && wildcardIndex !== segments.length - 1) {
+		throw new Error(
+			`Route conflict: wildcard must be the last segment in "${path}"`
+		);
+	}
+	return segments;
+}
+
+/**
+ * Expands optional segments into every concrete pattern they stand for:
+ * `/:lang?/docs` becomes `/:lang/docs` and `/docs`. In a run of adjacent optional
+ * segments only the leading ones can be present, so `/:a?/:b?` never yields `/:b`.
+ */
+export function expandOptionalSegments(
+	segments: SegmentPattern[]
+): SegmentPattern[][] {
+	const variants: SegmentPattern[][] = [];
+
+	function expand(index: number, current: SegmentPattern[], skipping: boolean) {
+		const segment = segments[index];
+		if (!segment) {
+			variants.push(current);
+			return;
+		}
+		if (segment.kind !== 'param' || !segment.optional) {
+			expand(index + 1, [...current, segment], false);
+			return;
+		}
+		if (!skipping) {
+			expand(index + 1, [...current, segment], false);
+		}
+		expand(index + 1, current, true);
+	}
+
+	expand(0, [], false);
+	return variants;
+}
+
+function compileParamChild<T>(
+	segment: Extract<SegmentPattern, { kind: 'param' }>
+): ParamChild<T> {
+	const names: string[] = [];
+	let shape = '';
+	let source = '';
+
+	for (const part of segment.parts) {
+		if (typeof part === 'string') {
+			shape += part;
+			source += escapeRegExp(part);
+		} else {
+			shape += part.constraint === null ? ':' : `:(${part.constraint})`;
+			source += `(?<p${names.length}>${part.constraint ?? '.+'})`;
+			names.push(part.name);
+		}
+	}
+
+	let regex: RegExp;
+	try {
+		regex = new RegExp(`^${source}$`);
+	} catch (e) {
+		throw new Error(
+			`Invalid parameter constraint in "${segment.source}": ${(e as Error).message}`
+		);
+	}
+
+	const bare = segment.parts.length === 1 && shape === ':';
+	return {
+		source: segment.source,
+		shape,
+		names,
+		regex,
+		bare,
+		node: createNode<T>(),
+	};
+}
+
+function joinPaths(prefix: string, path: string): string {
+	return '/' + [...splitPath(prefix), ...splitPath(path)].join('/');
+}
+
+// ─── Route tree ───────────────────────────────────────────────────────────────
+
+/**
+ * A segment trie used to match request paths against registered route patterns.
+ *
+ * Precedence at every segment is static > param > wildcard, independent of
+ * registration order. Among param segments, constrained or mixed ones
+ * (`:id(\\d+)`, `:file.:ext`) are tried before a lone `:param`. Matching
+ * backtracks, so `/users/me` only wins over `/users/:id` when it has a handler
+ * for the requested method. HEAD falls back to the GET handler when no HEAD
+ * handler is registered for a route. Param values are percent-decoded.
+ *
+ * Conflicting registrations throw immediately:
+ * - the same method and pattern registered twice
+ * - differently named params in the same position with the same shape
+ *   (`/users/:id` vs `/users/:userId`)
+ * - a wildcard that is not the last segment
+ */
+export function createRouteTree<T>() {
+	const root = createNode<T>();
+
+	function add(method: ValidMethods, path: string, value: T): void {
+		for (const segments of expandOptionalSegments(parseRoutePattern(path))) {
+			addVariant(method, path, segments, value);
+		}
+	}
+
+	function addVariant(
+		method: ValidMethods,
+		path: string,
+		segments: SegmentPattern[],
+		value: T
+	): void {
+		let node = root;
+
+		for (const segment of segments) {
+			if (segment.kind === 'wildcard') {
+				if (node.wildcardChild && node.wildcardName !== segment.name) {
+					throw new Error(
+						`Route conflict: wildcard "*${segment.name}" in "${path}" ` +
+							`clashes with "*${node.wildcardName}" in "${findPathKey(node.wildcardChild)}"`
+					);
+				}
+				node.wildcardChild ??= createNode<T>();
+				node.wildcardName = segment.name;
+				node = node.wildcardChild;
+			} else if (segment.kind === 'param') {
+				const compiled = compileParamChild<T>(segment);
+				let child = node.paramChildren.find((c) => c.shape === compiled.shape);
+				if (child && child.names.join() !== compiled.names.join()) {
+					throw new Error(
+						`Route conflict: parameter "${segment.source}" in "${path}" ` +
+							`clashes with "${child.source}" in "${findPathKey(child.node)}"`
+					);
+				}
+				if (!child) {
+					child = compiled;
+					node.paramChildren.push(child);
+					// Stable sort keeps registration order within each group
+					node.paramChildren.sort((a, b) => Number(a.bare) - Number(b.bare));
+				}
+				node = child.node;
+			} else {
+				let child = node.staticChildren.get(segment.value);
+				if (!child) {
+					child = createNode<T>();
+					node.staticChildren.set(segment.value, child);
+				}
+				node = child;
+			}
+		}
+
+		const existing = node.handlers.get(method);
+		if (existing) {
+			throw new Error(
+				`Route conflict: ${method} "${path}" is already registered as "${existing.pathKey}"`
+			);
+		}
+
+		node.handlers.set(method, { pathKey: path, value });
+	}
+
+	/**
+	 * Finds the first pattern registered below `node`, used to name the other
+	 * side of a parameter conflict in error messages.
+	 */
+	function findPathKey(node: RouteNode<T>): string {
+		const [handler] = node.handlers.values();
+		if (handler) return handler.pathKey;
+		for (const child of node.staticChildren.values()) {
+			const key = findPathKey(child);
+			if (key) return key;
+		}
+		for (const child of node.paramChildren) {
+			const key = findPathKey(child.node);
+			if (key) return key;
+		}
+		if (node.wildcardChild) return findPathKey(node.wildcardChild);
+		return '';
+	}
+
+	function find(
+		node: RouteNode<T>,
+		segments: string[],
+		index: number,
+		params: Record<string, string>,
+		accept: (node: RouteNode<T>) => boolean
+	): RouteNode<T> | null {
+		if (index === segments.length) {
+			if (accept(node)) return node;
+			// `/files/*` also matches `/files` itself
+			if (node.wildcardChild && accept(node.wildcardChild)) {
+				params[node.wildcardName!] = '';
+				return node.wildcardChild;
+			}
+			return null;
+		}
+
+		const segment = segments[index]!;
+
+		const staticChild = node.staticChildren.get(segment);
+		if (staticChild) {
+			const found = find(staticChild, segments, index + 1, params, accept);
+			if (found) return found;
+		}
+
+		if (node.paramChildren.length > 0) {
+			const decoded = decodeSegment(segment);
+			for (const child of node.paramChildren) {
+				const groups = child.regex.exec(decoded)?.groups;
+				if (!groups) continue;
+
+				const found = find(child.node, segments, index + 1, params, accept);
+				if (found) {
+					child.names.forEach((name, i) => {
+						params[name] = groups[`p${i}`]!;
+					});
+					return found;
+				}
+			}
+		}
+
+		if (node.wildcardChild && accept(node.wildcardChild)) {
+			params[node.wildcardName!] = segments
+				.slice(index)
+				.map(decodeSegment)
+				.join('/');
+			return node.wildcardChild;
+		}
+
+		return null;
+	}
+
+	function match(method: ValidMethods, path: string): RouteMatch<T> | null {
+		const params: Record<string, string> = {};
+		const node = find(
+			root,
+			splitPath(path),
+			0,
+			params,
+			(n) =>
+				n.handlers.has(method) || (method === 'HEAD' && n.handlers.has('GET'))
+		);
+		if (!node) return null;
+
+		const { pathKey, value } = (node.handlers.get(method) ??
+			node.handlers.get('GET'))!;
+		return { pathKey, value, params };
+	}
+
+	/**
+	 * Returns every method that would be routed for `path`.
+	 * Used to build the automatic `Allow` header for OPTIONS requests.
+	 */
+	function allowedMethods(path: string): ValidMethods[] {
+		return METHOD_ORDER.filter((method) => match(method, path) !== null);
+	}
+
+	return { add, match, allowedMethods };
+}
+
+export type RouteTree<T> = ReturnType<typeof createRouteTree<T>>;
+
+// ─── Routers ──────────────────────────────────────────────────────────────────
+
+// Keeps router internals off the public BunRouter type
+const routerInternals = new WeakMap<
+	BunRouter<any, any>,
+	RouterInternals<any>
+>();
+
+function getInternals<StateType>(
+	router: BunRouter<StateType, any>
+): RouterInternals<StateType> {
+	const internals = routerInternals.get(router);
+	if (!internals) {
+		throw new Error('Only routers created with createRouter() can be mounted');
+	}
+	return internals;
+}
+
+/** True when `target` is `internals` or any router mounted below it. */
+function containsRouter<StateType>(
+	internals: RouterInternals<StateType>,
+	target: RouterInternals<StateType>
+): boolean {
+	return (
+		internals === target ||
+		internals.mounted.some((child) => containsRouter(child, target))
+	);
+}
+
+/**
+ * Creates a standalone router that can be mounted on a server (or another router)
+ * with `mount(prefix, router)`. Its middleware, pre-request handlers, error handler,
+ * global headers and CORS policy only apply to its own routes.
+ *
+ * @example
+ * const admin = createRouter<AppState>({ globalHeaders: { 'Cache-Control': 'no-store' } });
+ * admin.addPreRequestHandler((req) => req.state.user?.isAdmin === true);
+ * admin.get('/users', listUsers);
+ *
+ * app.mount('/admin', admin); // GET /admin/users
+ *
+ * @typeParam BaseParams - params captured by the prefix it will be mounted at,
+ *   so its handlers can read them with types: `createRouter<AppState, { orgId: string }>()`
+ */
+export function createRouter<
+	StateType,
+	BaseParams extends Record<string, string> = {},
+>({ globalHeaders = {}, cors }: RouterOptions = {}): BunRouter<
+	StateType,
+	BaseParams
+> {
+	const internals: RouterInternals<StateType> = {
+		scope: {
+			middleware: [],
+			preRequestHandlers: [],
+			errorHandler: null,
+			globalHeaders,
+			cors: cors ?? null,
+		},
+		definitions: [],
+		listeners: [],
+		mounted: [],
+	};
+
+	function register(definition: RouteDefinition<StateType>) {
+		internals.definitions.push(definition);
+		internals.listeners.forEach((listener) => listener(definition));
+	}
+
+	function addRoute(
+		method: ValidMethods,
+		path: string,
+		handler: HandlerFunc<StateType, any>,
+		meta?: RouteMeta
+	) {
+		register({ method, path, handler, scopes: [internals.scope], meta });
+	}
+
+	const router: BunRouter<StateType, BaseParams> = {
+		get: function <Path extends string>(
+			path: Path,
+			handler: HandlerFunc<StateType, BaseParams & PathParams<Path>>,
+			meta?: RouteMeta
+		) {
+			addRoute('GET', path, handler, meta);
+		},
+		post: function <Path extends string>(
+			path: Path,
+			handler: HandlerFunc<StateType, BaseParams & PathParams<Path>>,
+			meta?: RouteMeta
+		) {
+			addRoute('POST', path, handler, meta);
+		},
+		put: function <Path extends string>(
+			path: Path,
+			handler: HandlerFunc<StateType, BaseParams & PathParams<Path>>,
+			meta?: RouteMeta
+		) {
+			addRoute('PUT', path, handler, meta);
+		},
+		delete: function <Path extends string>(
+			path: Path,
+			handler: HandlerFunc<StateType, BaseParams & PathParams<Path>>,
+			meta?: RouteMeta
+		) {
+			addRoute('DELETE', path, handler, meta);
+		},
+		patch: function <Path extends string>(
+			path: Path,
+			handler: HandlerFunc<StateType, BaseParams & PathParams<Path>>,
+			meta?: RouteMeta
+		) {
+			addRoute('PATCH', path, handler, meta);
+		},
+		options: function <Path extends string>(
+			path: Path,
+			handler: HandlerFunc<StateType, BaseParams & PathParams<Path>>,
+			meta?: RouteMeta
+		) {
+			addRoute('OPTIONS', path, handler, meta);
+		},
+		head: function <Path extends string>(
+			path: Path,
+			handler: HandlerFunc<StateType, BaseParams & PathParams<Path>>,
+			meta?: RouteMeta
+		) {
+			addRoute('HEAD', path, handler, meta);
+		},
+		onError: function (errorHandler: ErrorHandler) {
+			internals.scope.errorHandler = errorHandler;
+		},
+		addPreRequestHandler: function (handler: PreRequestHandler<StateType>) {
+			internals.scope.preRequestHandlers.push(handler);
+		},
+		use: function (middleware: Middleware<StateType>) {
+			internals.scope.middleware.push(middleware);
+		},
+		group: function <Prefix extends string>(
+			prefix: Prefix,
+			configure: (
+				router: BunRouter<StateType, BaseParams & PathParams<Prefix>>
+			) => void,
+			options?: RouterOptions
+		) {
+			const child = createRouter<StateType, BaseParams & PathParams<Prefix>>(
+				options
+			);
+			router.mount(prefix, child);
+			configure(child);
+			return child;
+		},
+		mount: function (prefix: string, child: BunRouter<StateType, any>) {
+			const childInternals = getInternals(child);
+			// Its routes would be re-registered on itself without end
+			if (containsRouter(childInternals, internals)) {
+				throw new Error(
+					'A router cannot be mounted on itself or on a router mounted inside it'
+				);
+			}
+			internals.mounted.push(childInternals);
+			subscribeToRoutes(child, (definition) => {
+				register({
+					...definition,
+					path: joinPaths(prefix, definition.path),
+					scopes: [internals.scope, ...definition.scopes],
+				});
+			});
+		},
+	};
+
+	routerInternals.set(router, internals);
+	return router;
+}
+
+export function getRouterScope<StateType>(
+	router: BunRouter<StateType, any>
+): RouteScope<StateType> {
+	return getInternals(router).scope;
+}
+
+/**
+ * Calls `onRoute` for every route already registered on `router` (including
+ * mounted sub-routers), then again for every route registered later.
+ */
+export function subscribeToRoutes<StateType>(
+	router: BunRouter<StateType, any>,
+	onRoute: (definition: RouteDefinition<StateType>) => void
+): void {
+	const internals = getInternals(router);
+	internals.definitions.forEach(onRoute);
+	internals.listeners.push(onRoute);
+}
+
+/**
+ * Runs the pre-request handlers of every scope, outermost first.
+ * @returns `true` to continue, `false` to reject, or a Response to send as-is.
+ */
+export async function runPreRequestHandlers<StateType>(
+	scopes: RouteScope<StateType>[],
+	req: RequestHandler<StateType>
+): Promise<boolean | Response> {
+	for (const scope of scopes) {
+		for (const guard of scope.preRequestHandlers) {
+			const result = await guard(req);
+			if (result instanceof Response || result === false) {
+				return result;
+			}
+		}
+	}
+	return true;
+}
+
+/**
+ * Runs the middleware of every scope, outermost first, with `handler` at the
+ * centre of the chain.
+ */
+export function runMiddleware<StateType>(
+	scopes: RouteScope<StateType>[],
+	req: RequestHandler<StateType>,
+	res: ResponseHandler,
+	handler: () => Response | Promise<Response>
+): Promise<Response> {
+	const stack = scopes.flatMap((scope) => scope.middleware);
+
+	async function dispatch(index: number): Promise<Response> {
+		const middleware = stack[index];
+		if (!middleware) {
+			return handler();
+		}
+
+		let called = false;
+		const response = await middleware(req, res, async () => {
+			if (called) {
+				throw new Error('next() called multiple times');
+			}
+			called = true;
+			return dispatch(index + 1);
+		});
+
+		if (!(response instanceof Response)) {
+			throw new Error('Middleware must return a Response');
+		}
+		return response;
+	}
+
+	return dispatch(0);
+}
+
+/** Returns the error handler of the innermost scope that has one. */
+export function findErrorHandler<StateType>(
+	scopes: RouteScope<StateType>[]
+): ErrorHandler | null {
+	for (let i = scopes.length - 1; i >= 0; i--) {
+		const errorHandler = scopes[i]!.errorHandler;
+		if (errorHandler) return errorHandler;
+	}
+	return null;
+}
+
+/** Merges the global headers of every scope; inner routers override outer ones. */
+export function mergeScopeHeaders<StateType>(
+	scopes: RouteScope<StateType>[]
+): Record<string, any> {
+	return Object.assign({}, ...scopes.map((scope) => scope.globalHeaders));
+}
@@ -1,10 +1,65 @@
 import type { Server, ServerWebSocket } from 'bun';
 
-export type HandlerFunc<StateType> = (
-	req: RequestHandler<StateType>,
+export type HandlerFunc<
+	StateType,
+	Params extends Record<string, string> = Record<string, string>,
+> = (
+	req: RequestHandler<StateType, Params>,
 	res: ResponseHandler
 ) => Response | Promise<Response>;
 
+/** Drops `(constraint)` groups so their contents aren't read as params. */
+type StripConstraints<Segment extends string> =
+	Segment extends `${infer Head}(${string})${infer Tail}`
+		? `${Head}${StripConstraints<Tail>}`
+		: Segment;
+
+/** Cuts a param name at the first character that can't be part of it, e.g. `file` in `file.:ext`. */
+type ParamName<Text extends string> =
+	Text extends `${infer Name}${'.' | '-' | '~' | ',' | ';' | '@' | '+' | '!' | '?' | ':'}${string}`
+		? ParamName<Name>
+		: Text;
+
+type SegmentParamNames<Segment extends string> =
+	Segment extends `${string}:${infer Rest}`
+		? ParamName<Rest> | SegmentParamNames<Rest>
+		: never;
+
+type SegmentParams<Segment extends string> = Segment extends `*${infer Name}`
+	? Name extends ''
+		? '*'
+		: Name
+	: SegmentParamNames<StripConstraints<Segment>>;
+
+type OptionalSegmentParam<Segment extends string> =
+	StripConstraints<Segment> extends `:${infer Name}?` ? Name : never;
+
+type PathParamNames<Path extends string> =
+	Path extends `${infer Segment}/${infer Rest}`
+		? SegmentParams<Segment> | PathParamNames<Rest>
+		: SegmentParams<Path>;
+
+type OptionalPathParamNames<Path extends string> =
+	Path extends `${infer Segment}/${infer Rest}`
+		? OptionalSegmentParam<Segment> | OptionalPathParamNames<Rest>
+		: OptionalSegmentParam<Path>;
+
+/**
+ * The params a route pattern captures, inferred from the pattern literal.
+ * Optional params (`:lang?`) may be missing; a bare `*` captures as `'*'`.
+ * @example
+ * PathParams<'/orgs/:orgId/users/:userId'> // { orgId: string; userId: string }
+ * PathParams<'/:lang?/docs/:file.:ext'> // { file: string; ext: string } & { lang?: string }
+ * PathParams<'/files/*path'> // { path: string }
+ */
+export type PathParams<Path extends string> = string extends Path
+	? Record<string, string>
+	: {
+			[
+				Name in Exclude<PathParamNames<Path>, OptionalPathParamNames<Path>>
+			]: string;
+		} & { [Name in OptionalPathParamNames<Path>]?: string };
+
 export type WebSocketConnectedHandler = (
 	ws: ServerWebSocket<any>
 ) => void | Promise<void> | null;
@@ -45,9 +100,17 @@ export type WebSocketConfig = {
 	 * @default '/ws'
 	 */
 	path?: string;
+	/**
+	 * Limits the messages each client may send. A client over the limit has its
+	 * message dropped and the connection closed with code 1008.
+	 */
+	rateLimit?: WebSocketRateLimitOptions;
 };
 
-export type RequestHandler<StateType> = {
+export type RequestHandler<
+	StateType,
+	Params extends Record<string, string> = Record<string, string>,
+> = {
 	request: Request;
 	/**
 	 * Raw access to parsed request data. Prefer the typed getter methods instead.
@@ -59,11 +122,43 @@ export type RequestHandler<StateType> = {
 		body: Record<string, any>;
 		query: Record<string, string | string[]>;
 		path: Record<string, string>;
+		files: UploadedFile[];
 	};
 	headers: Headers;
 	state: StateType;
 	pathname: string;
+	/**
+	 * Identifies this request in access logs. Taken from the `X-Request-Id` header
+	 * when the client sent a usable one, otherwise generated, and echoed on the response.
+	 */
+	requestId: string;
+	/**
+	 * The client's address. Behind proxies, set the `trustProxy` server option so
+	 * it is read from `X-Forwarded-For`.
+	 */
+	ip: string | null;
 	cookies: Record<string, string>;
+	/**
+	 * Signed and encrypted cookies that verified against `cookieSecrets`, with
+	 * their original values. Tampered and unsigned cookies are left out.
+	 */
+	signedCookies: Record<string, string>;
+	/**
+	 * The client's session, loaded from the store on first use and saved after the
+	 * response when changed. Requires the `session` server option.
+	 * @example
+	 * const userId = await req.session.get('userId');
+	 */
+	session: Session;
+	/**
+	 * URL path parameters of the matched route, typed from the route pattern.
+	 * @example
+	 * app.get('/orgs/:orgId/users/:userId', (req, res) => {
+	 *   const { orgId, userId } = req.params; // both `string`
+	 *   return res.send({ orgId, userId });
+	 * });
+	 */
+	params: Params;
 	/**
 	 * Returns the parsed request body, optionally validated/transformed.
 	 *
@@ -116,7 +211,17 @@ export type RequestHandler<StateType> = {
 	 * // Raw (no validation)
 	 * const params = req.getParams();
 	 */
-	getParams: <T = Record<string, string>>(validator?: (params: Record<string, string>) => T) => T;
+	getParams: <T = Params>(validator?: (params: Params) => T) => T;
+	/**
+	 * Returns the files uploaded with a `multipart/form-data` body, optionally only
+	 * those sent in `field`. Spooled files are removed once the handler returns,
+	 * so move or copy any you want to keep.
+	 *
+	 * @example
+	 * const [avatar] = req.getFiles('avatar');
+	 * if (avatar) await Bun.write(`uploads/${crypto.randomUUID()}`, Bun.file(avatar.path!));
+	 */
+	getFiles: (field?: string) => UploadedFile[];
 };
 
 export type ErrorHandler = (err: {
@@ -127,6 +232,74 @@ export type ErrorHandler = (err: {
 	status: number;
 }) => Response;
 
+/** One line of the access log, written once the response has been sent. */
+export type AccessLogEntry = {
+	/** What handled the request: a route or static file, the WAF, MCP or a WebSocket upgrade */
+	event: 'request' | 'waf' | 'mcp' | 'websocket';
+	requestId: string;
+	method: string;
+	/** Key of the matched route, e.g. `/users/:id`, or null when no route matched */
+	route: string | null;
+	path: string;
+	status: number;
+	/** Milliseconds from receiving the request until the body was sent */
+	duration: number;
+	/** Body bytes sent, after compression */
+	bytes: number;
+	/** Client address, read from `X-Forwarded-For` when `trustProxy` allows */
+	ip: string | null;
+	userAgent: string | null;
+	/** Set when the client went away before the body was sent */
+	aborted?: boolean;
+	/** Message of the error behind a 5xx response */
+	error?: string;
+	/** WAF rules the request matched, and what was done about it */
+	waf?: {
+		/** `ban` when the client was banned, by this request or an earlier one */
+		action: 'block' | 'log' | 'tarpit' | 'ban';
+		rules: string[];
+		/** Set when `wafDryRun` let a request through that would have been blocked */
+		dryRun?: true;
+	};
+};
+
+/**
+ * Receives access log entries. Objects with `info`, `warn` and `error` methods,
+ * such as `console` or a pino logger, can be used as is.
+ */
+export type Logger = {
+	info: (entry: AccessLogEntry) => void;
+	warn: (entry: AccessLogEntry) => void;
+	error: (entry: AccessLogEntry) => void;
+};
+
+/** One problem with a `ValidationError`'s input, e.g. `{ path: 'email', message: 'Required' }`. */
+export type ValidationIssue = {
+	/** Where the problem is, such as a field name or a JSON pointer */
+	path?: string;
+	message: string;
+};
+
+/**
+ * An RFC 9457 problem, sent as `application/problem+json` when no `onError`
+ * handler is registered. A `BunServerError`'s `params` are added as extra members.
+ */
+export type ProblemDetails = {
+	type: string;
+	/** Standard text for the status, e.g. `Not Found` */
+	title: string;
+	status: number;
+	/** The error's message. Left out for unexpected errors unless `includeErrorStack` is on */
+	detail?: string;
+	/** Path of the request that failed */
+	instance?: string;
+	/** Set on a `ValidationError` */
+	errors?: ValidationIssue[];
+	/** Stack trace lines, only with `includeErrorStack` */
+	stack?: string[];
+	[member: string]: unknown;
+};
+
 export type CookieOptions = {
 	secure?: boolean;
 	httpOnly?: boolean;
@@ -135,9 +308,95 @@ export type CookieOptions = {
 	path?: string;
 	maxAge?: number;
 	expires?: Date;
+	/**
+	 * Sign the value with the first of the server's `cookieSecrets`, so it can be
+	 * read back from `req.signedCookies` but not changed by the client.
+	 */
+	signed?: boolean;
+	/** Encrypt and sign the value, so the client can neither read nor change it. */
+	encrypted?: boolean;
+};
+
+/**
+ * Shape of the data kept in a session. Declare your fields by augmenting it:
+ * @example
+ * declare module '@xylude/bun-server' {
+ *   interface SessionData {
+ *     userId: string;
+ *     cart: string[];
+ *   }
+ * }
+ */
+export interface SessionData {}
+
+export type SessionRecord = {
+	data: Partial<SessionData>;
+	/** Expiry time in ms since the epoch */
+	expiresAt: number;
+};
+
+/** Where sessions are kept. Methods may be sync or async. */
+export type SessionStore = {
+	/** Returns the session, or null if it doesn't exist or has expired */
+	get: (id: string) => SessionRecord | null | Promise<SessionRecord | null>;
+	set: (id: string, record: SessionRecord) => void | Promise<void>;
+	destroy: (id: string) => void | Promise<void>;
+	/** Extends a session's expiry without rewriting its data */
+	touch?: (id: string, expiresAt: number) => void | Promise<void>;
+};
+
+export type SessionOptions = {
+	/** @default createMemorySessionStore() */
+	store?: SessionStore;
+	/** @default 'sid' */
+	cookieName?: string;
+	/**
+	 * Session cookie flags. `maxAge` and `expires` are managed by the session.
+	 * @default { httpOnly: true, sameSite: 'Lax', path: '/' }
+	 */
+	cookie?: Omit<CookieOptions, 'maxAge' | 'expires'>;
+	/**
+	 * Session lifetime in seconds.
+	 * @default 86400
+	 */
+	maxAge?: number;
+	/**
+	 * Restart the lifetime on every request that carries the session cookie,
+	 * so sessions only expire after `maxAge` seconds of inactivity.
+	 * @default false
+	 */
+	rolling?: boolean;
+};
+
+export type Session = {
+	/** The session id, or null until something is stored in the session */
+	readonly id: string | null;
+	get: <Key extends keyof SessionData>(
+		key: Key
+	) => Promise<SessionData[Key] | undefined>;
+	set: <Key extends keyof SessionData>(
+		key: Key,
+		value: SessionData[Key]
+	) => Promise<void>;
+	delete: (key: keyof SessionData) => Promise<void>;
+	/** Returns a copy of all session data */
+	all: () => Promise<Partial<SessionData>>;
+	/**
+	 * Moves the session data to a new id and discards the old one. Call it when
+	 * the user logs in, so a session id planted before login can't be reused.
+	 */
+	regenerate: () => Promise<void>;
+	/** Deletes the session from the store and clears the cookie */
+	destroy: () => Promise<void>;
 };
 
 export type PublicDirectoryOptions = {
+	/**
+	 * URL prefix the directory is served under, e.g. `/admin` maps `/admin/app.js`
+	 * to `<dir>/app.js`. SPA fallback only applies to paths under the prefix.
+	 * @default '/'
+	 */
+	mountPath?: string;
 	/**
 	 * Custom headers to set on responses for files served from this directory.
 	 * Note: Overriding secure defaults will trigger a console warning.
@@ -165,18 +424,157 @@ export type PublicDirectoryOptions = {
 	 * When enabled, any request that doesn't match an existing file will serve index.html
 	 */
 	spaMode?: boolean;
+	/**
+	 * Cache-Control header for files from this directory, or a function that picks
+	 * one from the file's path. Ignored when `headers` sets Cache-Control.
+	 * @example cacheControl: 'public, max-age=3600'
+	 */
+	cacheControl?: string | ((filePath: string) => string | undefined);
+	/**
+	 * Mark files as `public, max-age=31536000, immutable`, for fingerprinted names
+	 * that change whenever their content does. `true` applies to every file, a
+	 * RegExp to matching file names. Takes precedence over `cacheControl`.
+	 * @example immutable: /\.[0-9a-f]{8,}\.(js|css|woff2)$/
+	 */
+	immutable?: boolean | RegExp;
+	/**
+	 * Serve the `.br` or `.gz` sibling a build step wrote next to a file, e.g.
+	 * `app.js.br` for `/app.js`, when the client's `Accept-Encoding` allows it.
+	 * `true` offers both, brotli first.
+	 */
+	precompressed?: boolean | PrecompressedEncoding[];
+	/**
+	 * Content types by extension, added to or overriding the built-in map.
+	 * @example mimeTypes: { '.glb': 'model/gltf-binary' }
+	 */
+	mimeTypes?: Record<string, string>;
+	/**
+	 * Extensions to try for paths without one, in order: with `['html']`, `/about`
+	 * serves `about.html`.
+	 */
+	extensions?: string[];
+};
+
+export type PrecompressedEncoding = 'br' | 'gzip';
+
+/** One file in an embedded asset bundle. */
+export type EmbeddedAsset = {
+	/** File contents; strings are read according to `encoding` */
+	body: Blob | ArrayBuffer | Uint8Array | string;
+	/** @default 'utf8' */
+	encoding?: 'utf8' | 'base64';
+	/** Falls back to the type for the file extension */
+	contentType?: string;
+	/** Strong ETag, e.g. a content hash. Falls back to one built from size and modification time */
+	etag?: string;
+	/** Modification time in ms. Falls back to when the bundle was registered */
+	lastModified?: number;
+};
+
+/** Embedded assets keyed by URL path, e.g. `/assets/app.js`. */
+export type AssetManifest = Record<string, EmbeddedAsset>;
+
+export type AssetManifestOptions = Pick<
+	PublicDirectoryOptions,
+	'mimeTypes' | 'blockPatterns' | 'allowAllFiles'
+> & {
+	/**
+	 * `'base64'` stores file contents as base64 strings, so the manifest is plain
+	 * JSON that can be written to a file or returned from a Bun macro.
+	 * @default 'binary'
+	 */
+	encoding?: 'binary' | 'base64';
 };
 
 export type ResponseHandler = {
 	setStatus: (statusCode: number) => void;
 	setHeader: (key: string, value: string) => void;
-	setCookie: (key: string, value: string, options?: CookieOptions) => void;
+	/**
+	 * Sets the response's ETag. Quoted values are used as-is, anything else is quoted.
+	 * GET and HEAD requests whose `If-None-Match` matches it get a 304 with no body.
+	 * Without it, string and JSON bodies get a weak ETag computed from the body.
+	 */
+	setETag: (value: string, options?: { weak?: boolean }) => void;
+	/**
+	 * Sets the Last-Modified header. GET and HEAD requests with an `If-Modified-Since`
+	 * at or after it get a 304 with no body.
+	 */
+	setLastModified: (date: Date | number | string) => void;
+	/**
+	 * Sets a cookie. With `signed` or `encrypted` the value is protected with
+	 * WebCrypto, which is async: await the call so the cookie makes it into the response.
+	 * @example
+	 * await res.setCookie('remember', '1', { signed: true, httpOnly: true });
+	 */
+	setCookie: {
+		(
+			key: string,
+			value: string,
+			options: CookieOptions & ({ signed: true } | { encrypted: true })
+		): Promise<void>;
+		(key: string, value: string, options?: CookieOptions): void;
+	};
 	deleteCookie: (
 		key: string,
 		options?: Pick<CookieOptions, 'domain' | 'path'>
 	) => void;
 	redirect: (url: string, statusCode?: number) => Response;
 	send: (data: any) => Response;
+	/**
+	 * Starts a Server-Sent Events stream. Return `stream.response` from the handler,
+	 * then push events with `stream.send` until either side closes it.
+	 * @example
+	 * app.get('/events', (req, res) => {
+	 *   const stream = res.sse();
+	 *   const unsubscribe = feed.subscribe((item) => stream.send({ event: 'item', id: item.id, data: item }));
+	 *   stream.onClose(unsubscribe);
+	 *   return stream.response;
+	 * });
+	 */
+	sse: (options?: SSEOptions) => SSEStream;
+};
+
+export type SSEMessage = {
+	event?: string;
+	id?: string | number;
+	/**
+	 * Strings are sent as-is, anything else as JSON. Multi-line data is split into
+	 * `data:` lines, and `undefined` is sent as an empty `data:` line.
+	 */
+	data: any;
+	/** How long the client should wait before reconnecting, in ms. */
+	retry?: number;
+};
+
+export type SSEOptions = {
+	/**
+	 * Interval between heartbeat comments, in ms, which keep Bun (10 second
+	 * `idleTimeout` by default) and proxies from closing an idle connection.
+	 * `0` disables them.
+	 * @default 5000
+	 */
+	heartbeat?: number;
+	/** Reconnection delay sent to the client when the stream opens, in ms. */
+	retry?: number;
+};
+
+export type SSEStream = {
+	/** The streaming Response; return it from the handler. */
+	response: Response;
+	/** The `Last-Event-ID` a reconnecting client sent, to resume from. */
+	lastEventId: string | null;
+	readonly closed: boolean;
+	/** Sends an event. Returns false once the stream is closed. */
+	send: (message: SSEMessage) => boolean;
+	/** Sends a comment line, which clients ignore. */
+	comment: (text: string) => boolean;
+	/** Ends the stream from the server side. */
+	close: () => void;
+	/**
+	 * Runs once the stream ends: `'server'` after `close()`, `'client'` when the
+	 * client disconnects. Use it to stop timers and unsubscribe.
+	 */
+	onClose: (callback: (reason: 'server' | 'client') => void) => void;
 };
 
 // ─── MCP Types ────────────────────────────────────────────────────────────────
@@ -239,13 +637,177 @@ export type MCPConfig = {
 	tools: MCPToolDefinition[];
 	/** Identifies this server in the MCP `initialize` handshake. */
 	serverInfo?: { name: string; version: string };
+	/**
+	 * Limits `tools/call` requests. Calls over the limit get a JSON-RPC error with
+	 * code -32000 instead of running the tool. Over stdio, every call shares one key.
+	 */
+	rateLimit?: RateLimitOptions;
 };
 
+/**
+ * What the WAF does with a request that matches a rule. `block` answers with a
+ * bare `status` (404 by default), `log` lets the request through and logs it, and
+ * `tarpit` holds the connection for `delay` milliseconds before blocking it.
+ */
+export type WafAction =
+	| 'block'
+	| 'log'
+	| 'tarpit'
+	| { type: 'block'; status?: number }
+	| { type: 'log' }
+	| { type: 'tarpit'; delay?: number; status?: number };
+
+/**
+ * Matches requests by path, method, headers, query string or body. A rule
+ * matches when every matcher it sets matches. String matchers are
+ * case-insensitive; the path is matched by prefix and everything else by substring.
+ */
 export type WafRule = {
 	/** String prefix (case-insensitive) or RegExp to match against the request pathname. */
-	pattern: string | RegExp;
+	pattern?: string | RegExp;
+	/** Request methods to match, e.g. `['TRACE', 'TRACK']` */
+	methods?: string[];
+	/**
+	 * Header values to match, by header name. A missing header is matched as an
+	 * empty string, so `/^$/` matches requests without it.
+	 */
+	headers?: Record<string, string | RegExp>;
+	/** Matched against the URL-decoded query string, without the `?` */
+	query?: string | RegExp;
+	/** Matched against the first 8 KiB of the body, URL-decoded when possible */
+	body?: string | RegExp;
 	/** Human-readable description of what this rule blocks. */
 	description: string;
+	/** @default 'block' */
+	action?: WafAction;
+	/**
+	 * Points a match adds to the client's anomaly score when `wafBans` is on.
+	 * @default 1, or 0 for rules with the `log` action
+	 */
+	score?: number;
+};
+
+/**
+ * Keeps WAF anomaly scores and bans per client address. Methods may return
+ * promises, so scores can be shared between instances, e.g. in Redis.
+ */
+export type WafStore = {
+	/**
+	 * Adds `points` to the client's score and returns the new total. A score is
+	 * forgotten `window` milliseconds after the client's first points.
+	 */
+	addScore: (
+		ip: string,
+		points: number,
+		window: number
+	) => number | Promise<number>;
+	/** Bans the client until `until` (a timestamp in milliseconds) and clears its score. */
+	ban: (ip: string, until: number) => void | Promise<void>;
+	/** Returns when the client's ban ends, or null when it isn't banned. */
+	getBan: (ip: string) => number | null | Promise<number | null>;
+};
+
+export type WafBanOptions = {
+	/**
+	 * Score at which a client is banned.
+	 * @default 10
+	 */
+	threshold?: number;
+	/**
+	 * Seconds a client's score is kept after its first points.
+	 * @default 300
+	 */
+	window?: number;
+	/**
+	 * Seconds a ban lasts.
+	 * @default 600
+	 */
+	duration?: number;
+	/**
+	 * Status sent to banned clients.
+	 * @default 403
+	 */
+	status?: number;
+	/** @default createMemoryWafStore() */
+	store?: WafStore;
+};
+
+/**
+ * Proxies whose `X-Forwarded-For` entries are believed: `true` for all of them,
+ * a number for that many hops, or a list of addresses and CIDR ranges.
+ */
+export type TrustProxy = boolean | number | string[];
+
+export type WafStats = {
+	/** Requests checked against the rules */
+	inspected: number;
+	/** Requests blocked or tarpitted. Always 0 in dry-run mode */
+	blocked: number;
+	/** Requests refused because their client was banned */
+	banned: number;
+	/** How often each rule matched, in ruleset order */
+	rules: Array<{ rule: WafRule; hits: number }>;
+};
+
+/**
+ * Who a rate limit counts requests for: the client address, the value of a header
+ * or cookie, or whatever a function returns. Requests without the header or cookie
+ * are counted by address, and a function can return null to leave a request unlimited.
+ */
+export type RateLimitKey =
+	| 'ip'
+	| { header: string }
+	| { cookie: string }
+	| ((
+			request: Request,
+			ip: string | null
+	  ) => string | null | Promise<string | null>);
+
+/** Hits counted for a key in the current window and in the one before it. */
+export type RateLimitCounts = { current: number; previous: number };
+
+/** Where rate limit counters are kept. `hit` may be sync or async. */
+export type RateLimitStore = {
+	/**
+	 * Counts a hit for `key` in the window starting at `windowStart` (a timestamp
+	 * in milliseconds) and `window` milliseconds long, and returns the counts for
+	 * that window and the previous one, including the hit. The hit is only
+	 * recorded when `accept` returns true for those counts.
+	 */
+	hit: (
+		key: string,
+		windowStart: number,
+		window: number,
+		accept: (counts: RateLimitCounts) => boolean
+	) => RateLimitCounts | Promise<RateLimitCounts>;
+};
+
+export type RateLimitOptions = {
+	/** Requests allowed per window. */
+	limit: number;
+	/**
+	 * Length of the sliding window, in seconds.
+	 * @default 60
+	 */
+	window?: number;
+	/** @default 'ip' */
+	key?: RateLimitKey;
+	/** @default createMemoryRateLimitStore() */
+	store?: RateLimitStore;
+	/**
+	 * Prefixes this limit's keys in the store. Defaults to `global`, the route's
+	 * method and path, `mcp` or `websocket`; limits sharing a name share their counters.
+	 */
+	name?: string;
+};
+
+/**
+ * A rate limit on WebSocket messages, counted per connection by default, per
+ * client address with `'ip'`, or by what a function returns (null for unlimited).
+ */
+export type WebSocketRateLimitOptions = Omit<RateLimitOptions, 'key'> & {
+	/** @default 'connection' */
+	key?: 'connection' | 'ip' | ((ws: ServerWebSocket<any>) => string | null);
 };
 
 export type TLSConfig = {
@@ -261,19 +823,308 @@ export type TLSConfig = {
 	httpsPort: number;
 };
 
-export type BunServer<StateType> = {
-	get: (path: string, handler: HandlerFunc<StateType>) => void;
-	post: (path: string, handler: HandlerFunc<StateType>) => void;
-	put: (path: string, handler: HandlerFunc<StateType>) => void;
-	delete: (path: string, handler: HandlerFunc<StateType>) => void;
-	patch: (path: string, handler: HandlerFunc<StateType>) => void;
-	options: (path: string, handler: HandlerFunc<StateType>) => void;
+export type PreRequestHandler<StateType> = (
+	req: RequestHandler<StateType>
+) => boolean | Response | Promise<boolean | Response>;
+
+/**
+ * Onion-style middleware. Call `next()` to run the rest of the chain (and finally
+ * the route handler), then inspect or replace the Response it resolves to.
+ * Errors thrown further down the chain reject `next()`.
+ *
+ * @example
+ * app.use(async (req, res, next) => {
+ *   const start = performance.now();
+ *   const response = await next();
+ *   response.headers.set('Server-Timing', `app;dur=${performance.now() - start}`);
+ *   return response;
+ * });
+ */
+export type Middleware<StateType> = (
+	req: RequestHandler<StateType>,
+	res: ResponseHandler,
+	next: () => Promise<Response>
+) => Response | Promise<Response>;
+
+export type CorsOrigin =
+	| '*'
+	| string
+	| RegExp
+	| Array<string | RegExp>
+	| ((origin: string, request: Request) => boolean | Promise<boolean>);
+
+export type CorsOptions = {
+	/**
+	 * Origins allowed to make cross-origin requests: `'*'`, an exact origin, a RegExp,
+	 * a list of either, or a function deciding per request. Allowed origins are
+	 * echoed back in `Access-Control-Allow-Origin` (with `Vary: Origin`), except for
+	 * `'*'` without credentials.
+	 * @default '*'
+	 */
+	origin?: CorsOrigin;
+	/** Send `Access-Control-Allow-Credentials: true`. */
+	credentials?: boolean;
+	/** Response headers the browser may expose to scripts. */
+	exposedHeaders?: string[];
+	/**
+	 * Request headers allowed in preflight requests.
+	 * Defaults to echoing the preflight's `Access-Control-Request-Headers`.
+	 */
+	allowedHeaders?: string[];
+	/**
+	 * Methods allowed in preflight requests.
+	 * Defaults to the methods registered for the requested path.
+	 */
+	methods?: ValidMethods[];
+	/** How long (in seconds) browsers may cache a preflight response. */
+	maxAge?: number;
+};
+
+export type CompressionEncoding = 'br' | 'gzip' | 'deflate';
+
+export type CompressionOptions = {
+	/**
+	 * Encodings to offer, in order of preference. The client's `Accept-Encoding`
+	 * q-values win; this order only breaks ties.
+	 * @default ['br', 'gzip', 'deflate']
+	 */
+	encodings?: CompressionEncoding[];
+	/** Smallest body worth compressing, in bytes. @default 1024 */
+	threshold?: number;
+	/**
+	 * Content types to compress. Strings match the start of the type. Defaults to
+	 * text, JSON, JavaScript, XML and SVG. Already compressed types (images, video,
+	 * audio, archives, woff fonts) and event streams are never compressed.
+	 */
+	contentTypes?: Array<string | RegExp>;
+};
+
+export type RouterOptions = {
+	/** Headers added to every response sent by routes in this router. */
+	globalHeaders?: Record<string, any>;
+	/** CORS policy for this router's routes. Overrides the policy of enclosing routers. */
+	cors?: CorsOptions;
+};
+
+export type JsonSchema = Record<string, any>;
+
+/**
+ * Anything that can describe itself as JSON Schema, so validator libraries can be
+ * used for route metadata without converting schemas by hand.
+ * @example
+ * const UserSchema = z.object({ name: z.string() });
+ * const userBody = { toJSONSchema: () => z.toJSONSchema(UserSchema) };
+ */
+export type SchemaAdapter = { toJSONSchema: () => JsonSchema };
+
+export type SchemaSource = JsonSchema | SchemaAdapter;
+
+export type RouteResponseMeta = {
+	description?: string;
+	/** @default 'application/json' */
+	contentType?: string;
+	schema?: SchemaSource;
+};
+
+export type BodyLimits = {
+	/** Largest request body accepted, in bytes. Bigger bodies are rejected with 413. */
+	maxBodySize?: number;
+	/**
+	 * Largest `multipart/form-data` body accepted, in bytes, so uploads can have
+	 * their own limit. Falls back to `maxBodySize`.
+	 */
+	maxMultipartBodySize?: number;
+};
+
+/** A file from a `multipart/form-data` upload. */
+export type UploadedFile = {
+	/** Form field the file was sent in */
+	field: string;
+	/** File name sent by the client. Never use it as a path without sanitizing it */
+	name: string;
+	size: number;
+	/** MIME type sent by the client */
+	type: string;
+	/**
+	 * Where the file was spooled on disk, removed once the handler returns unless
+	 * `keep()` was called. With `onFile`, whatever it returned, or null.
+	 */
+	path: string | null;
+	/**
+	 * Leaves the spooled file in place when the handler returns, e.g. for a job that
+	 * reads it later. It is then yours to move or delete.
+	 */
+	keep: () => void;
+};
+
+/** A file part handed to `onFile` while the upload is still streaming in. */
+export type MultipartFileStream = Pick<
+	UploadedFile,
+	'field' | 'name' | 'type'
+> & {
+	stream: ReadableStream<Uint8Array>;
+};
+
+/** How `multipart/form-data` bodies are parsed, and the limits they must stay within. */
+export type MultipartOptions = {
+	/** Largest file, in bytes. Bigger files are rejected with 413 */
+	maxFileSize?: number;
+	/** Most files in one request */
+	maxFiles?: number;
+	/**
+	 * Largest non-file field value, in bytes.
+	 * @default 1048576
+	 */
+	maxFieldSize?: number;
+	/**
+	 * Most non-file fields in one request.
+	 * @default 1000
+	 */
+	maxFields?: number;
+	/**
+	 * Accepted file types: exact types, prefixes such as `'image/'`, or patterns.
+	 * Other files are rejected with 415.
+	 */
+	allowedTypes?: Array<string | RegExp>;
+	/**
+	 * Directory files are spooled to.
+	 * @default os.tmpdir()
+	 */
+	tempDir?: string;
+	/**
+	 * Receives each file as a stream instead of spooling it to disk, e.g. to pipe
+	 * it to object storage. The stream must be read for the upload to continue.
+	 * The returned string is reported as the file's `path`.
+	 */
+	onFile?: (
+		file: MultipartFileStream,
+		request: Request
+	) => string | void | Promise<string | void>;
+};
+
+/**
+ * Optional settings for a route: documentation used to build the OpenAPI document,
+ * and body size limits that override the server's.
+ */
+export type RouteMeta = BodyLimits & {
+	/** Multipart settings for this route, merged over the server's */
+	multipart?: MultipartOptions;
+	summary?: string;
+	description?: string;
+	tags?: string[];
+	operationId?: string;
+	deprecated?: boolean;
+	/** Leave the route out of the OpenAPI document. */
+	hidden?: boolean;
+	/** Object schema for the path params. Params it doesn't describe are documented as strings. */
+	params?: SchemaSource;
+	/** Object schema for the query string; each property becomes a query parameter. */
+	query?: SchemaSource;
+	body?: SchemaSource;
+	/** @default 'application/json' */
+	bodyContentType?: string;
+	/** Responses keyed by status code. Defaults to a bare `200`. */
+	responses?: {
+		[status: number]: RouteResponseMeta;
+		default?: RouteResponseMeta;
+	};
+	/** Limits requests to this route, on top of the server's `rateLimit`. */
+	rateLimit?: RateLimitOptions;
+};
+
+export type OpenAPIOptions = {
+	info: { title: string; version: string; description?: string };
+	servers?: Array<{ url: string; description?: string }>;
+	/** Serve the document as JSON at this path, e.g. `/openapi.json`. */
+	path?: string;
+};
+
+export type OpenAPIDocument = {
+	openapi: '3.1.0';
+	info: OpenAPIOptions['info'];
+	servers?: OpenAPIOptions['servers'];
+	paths: Record<string, Record<string, any>>;
+};
+
+export type RouteRegistrar<
+	StateType,
+	BaseParams extends Record<string, string>,
+> = <Path extends string>(
+	path: Path,
+	handler: HandlerFunc<StateType, BaseParams & PathParams<Path>>,
+	meta?: RouteMeta
+) => void;
+
+/**
+ * @typeParam BaseParams - params captured by the prefixes this router is mounted
+ *   under, e.g. `{ orgId: string }` for a group at `/orgs/:orgId`
+ */
+export type BunRouter<
+	StateType,
+	BaseParams extends Record<string, string> = {},
+> = {
+	get: RouteRegistrar<StateType, BaseParams>;
+	post: RouteRegistrar<StateType, BaseParams>;
+	put: RouteRegistrar<StateType, BaseParams>;
+	delete: RouteRegistrar<StateType, BaseParams>;
+	patch: RouteRegistrar<StateType, BaseParams>;
+	options: RouteRegistrar<StateType, BaseParams>;
+	/**
+	 * Registers an explicit HEAD handler. Without one, HEAD requests are served by
+	 * the route's GET handler with the body removed.
+	 */
+	head: RouteRegistrar<StateType, BaseParams>;
+	/**
+	 * Handles errors thrown by routes in this router. The innermost router with
+	 * an error handler wins; errors outside any route go to the server's handler.
+	 */
 	onError: (errorHandler: ErrorHandler) => void;
+	/**
+	 * Runs before every route in this router, after the handlers of any router
+	 * it is mounted in.
+	 */
+	addPreRequestHandler: (handler: PreRequestHandler<StateType>) => void;
+	/**
+	 * Adds middleware that wraps every request handled by this router, running
+	 * before its pre-request handlers. Middleware registered on the server also
+	 * wraps static files and automatic OPTIONS responses.
+	 */
+	use: (middleware: Middleware<StateType>) => void;
+	/**
+	 * Creates a sub-router mounted at `prefix` and passes it to `configure`.
+	 * @example
+	 * app.group('/admin', (admin) => {
+	 *   admin.addPreRequestHandler((req) => req.cookies['role'] === 'admin');
+	 *   admin.get('/users', listUsers); // GET /admin/users
+	 * });
+	 */
+	group: <Prefix extends string>(
+		prefix: Prefix,
+		configure: (
+			router: BunRouter<StateType, BaseParams & PathParams<Prefix>>
+		) => void,
+		options?: RouterOptions
+	) => BunRouter<StateType, BaseParams & PathParams<Prefix>>;
+	/**
+	 * Mounts a router created with `createRouter()` at `prefix`.
+	 * Routes added to it after mounting are picked up as well.
+	 */
+	mount: (prefix: string, router: BunRouter<StateType, any>) => void;
+};
+
+export type BunServer<StateType> = BunRouter<StateType> & {
 	addPublicDirectory: (dir: string, options?: PublicDirectoryOptions) => void;
-	addPreRequestHandler: (
-		handler: (
-			req: RequestHandler<StateType>
-		) => boolean | Response | Promise<boolean | Response>
+	/**
+	 * Serves an in-memory asset bundle like a public directory, for deployments
+	 * with no files on disk such as `bun build --compile` binaries.
+	 */
+	addEmbeddedAssets: (
+		manifest: AssetManifest,
+		options?: PublicDirectoryOptions
 	) => void;
+	/** Builds an OpenAPI 3.1 document from the routes registered so far. */
+	getOpenAPIDocument: () => OpenAPIDocument;
+	/** Counts of the requests the WAF has inspected and blocked, and hits per rule, since start. */
+	getWafStats: () => WafStats;
 	start: () => Server<StateType>;
 };
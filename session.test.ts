@@ -0,0 +1,118 @@
+import { describe, expect, test } from 'bun:test';
+import { createTestServer } from './bun-test-server';
+import { createMemorySessionStore } from './session';
+
+declare module './server-types' {
+	interface SessionData {
+		userId: string;
+	}
+}
+
+function createApp(session = {}) {
+	const app = createTestServer({ session });
+	app.post('/login', async (req, res) => {
+		await req.session.set('userId', req.getBody().userId);
+		return res.send({ ok: true });
+	});
+	app.get('/me', async (req, res) =>
+		res.send({ userId: (await req.session.get('userId')) ?? null })
+	);
+	app.post('/logout', async (req, res) => {
+		await req.session.destroy();
+		return res.send({ ok: true });
+	});
+	return app;
+}
+
+describe('sessions', () => {
+	test('keeps data between requests through the session cookie', async () => {
+		const app = createApp();
+
+		const login = await app.call('/login', {
+			method: 'POST',
+			body: { userId: 'u1' },
+		});
+		const me = await app.call('/me', { cookies: { sid: login.cookies.sid! } });
+
+		expect(login.cookies.sid).toBeString();
+		expect(me.body).toEqual({ userId: 'u1' });
+	});
+
+	test('does not set a cookie for sessions that were never written', async () => {
+		const app = createApp();
+
+		const me = await app.call('/me');
+
+		expect(me.body).toEqual({ userId: null });
+		expect(me.cookies.sid).toBeUndefined();
+	});
+
+	test('ignores ids the store does not know', async () => {
+		const app = createApp();
+
+		const me = await app.call('/me', { cookies: { sid: 'made-up' } });
+
+		expect(me.body).toEqual({ userId: null });
+		expect(me.cookies.sid).toBe('');
+	});
+
+	test('destroy removes the session and clears the cookie', async () => {
+		const app = createApp();
+		const login = await app.call('/login', {
+			method: 'POST',
+			body: { userId: 'u1' },
+		});
+		const cookies = { sid: login.cookies.sid! };
+
+		const logout = await app.call('/logout', { method: 'POST', cookies });
+		const me = await app.call('/me', { cookies });
+
+		expect(logout.cookies.sid).toBe('');
+		expect(me.body).toEqual({ userId: null });
+	});
+
+	test('sends store failures while saving to the error handler', async () => {
+		const store = createMemorySessionStore();
+		const app = createApp({
+			store: {
+				...store,
+				set: () => {
+					throw new Error('store is down');
+				},
+			},
+		});
+		let handled: unknown;
+		app.onError(({ error }) => {
+			handled = error;
+			return new Response('Session unavailable', { status: 503 });
+		});
+
+		const response = await app.call('/login', {
+			method: 'POST',
+			body: { userId: 'u1' },
+		});
+
+		expect(response.status).toBe(503);
+		expect(handled).toBeInstanceOf(Error);
+		expect(response.headers['x-request-id']).toBeString();
+	});
+
+	test('answers store failures as problem details without an error handler', async () => {
+		const app = createApp({
+			store: {
+				...createMemorySessionStore(),
+				set: () => Promise.reject(new Error('store is down')),
+			},
+		});
+
+		const response = await app.call('/login', {
+			method: 'POST',
+			body: { userId: 'u1' },
+		});
+
+		expect(response.status).toBe(500);
+		expect(response.headers['content-type']).toContain(
+			'application/problem+json'
+		);
+	});
+});
@@ -0,0 +1,293 @@
+import { Database } from 'bun:sqlite';
+import type {
+	Session,
+	SessionData,
+	SessionOptions,
+	SessionRecord,
+	SessionStore,
+} from './server-types';
+import type { CookieSigner } from './cookies';
+import { serializeCookie, serializeExpiredCookie } from './response';
+
+const DEFAULT_COOKIE_OPTIONS: NonNullable<SessionOptions['cookie']> = {
+	httpOnly: true,
+	sameSite: 'Lax',
+	path: '/',
+};
+
+// How often stores sweep out expired sessions
+const PRUNE_INTERVAL = 60_000;
+
+/** A request's session, plus the hook that persists it once the response is ready. */
+export type SessionHandle = {
+	session: Session;
+	/** Saves changes and adds the session cookie to `response` when needed. */
+	commit: (response: Response) => Promise<void>;
+};
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function generateSessionId(): string {
+	return Buffer.from(crypto.getRandomValues(new Uint8Array(32))).toString(
+		'base64url'
+	);
+}
+
+// ─── Public helpers ───────────────────────────────────────────────────────────
+
+/**
+ * Keeps sessions in process memory. Sessions are lost on restart and are not
+ * shared between processes, so use it for development or single-instance apps.
+ */
+export function createMemorySessionStore(): SessionStore {
+	const sessions = new Map<string, SessionRecord>();
+
+	setInterval(() => {
+		const now = Date.now();
+		for (const [id, record] of sessions) {
+			if (record.expiresAt <= now) sessions.delete(id);
+		}
+	}, PRUNE_INTERVAL).unref();
+
+	return {
+		get: (id) => {
+			const record = sessions.get(id);
+			if (!record || record.expiresAt <= Date.now()) {
+				sessions.delete(id);
+				return null;
+			}
+			// Copy so changes only reach the store when the session is saved
+			return structuredClone(record);
+		},
+		set: (id, record) => {
+			sessions.set(id, structuredClone(record));
+		},
+		destroy: (id) => {
+			sessions.delete(id);
+		},
+		touch: (id, expiresAt) => {
+			const record = sessions.get(id);
+			if (record) record.expiresAt = expiresAt;
+		},
+	};
+}
+
+/**
+ * Keeps sessions in a SQLite table with `bun:sqlite`. Session data is stored as
+ * JSON, so it must be JSON-serializable.
+ *
+ * @param database - a `Database`, or a filename to open (default `sessions.sqlite`)
+ */
+export function createSqliteSessionStore({
+	database = 'sessions.sqlite',
+	table = 'sessions',
+}: { database?: Database | string; table?: string } = {}): SessionStore {
+	if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+		throw new Error(`Invalid session table name: ${table}`);
+	}
+	const db = typeof database === 'string' ? new Database(database) : database;
+
+	db.run(
+		`CREATE TABLE IF NOT EXISTS ${table} (id TEXT PRIMARY KEY, data TEXT NOT NULL, expires_at INTEGER NOT NULL)`
+	);
+	const select = db.query<
+		{ data: string; expires_at: number },
+		[string, number]
+	>(`SELECT data, expires_at FROM ${table} WHERE id = ? AND expires_at > ?`);
+	const upsert = db.query(
+		`INSERT INTO ${table} (id, data, expires_at) VALUES (?, ?, ?) ON CONFLICT(id) DO UPDATE SET data = excluded.data, expires_at = excluded.expires_at`
+	);
+	const remove = db.query(`DELETE FROM ${table} WHERE id = ?`);
+	const touch = db.query(`UPDATE ${table} SET expires_at = ? WHERE id = ?`);
+	const prune = db.query(`DELETE FROM ${table} WHERE expires_at <= ?`);
+
+	let lastPrune = 0;
+
+	return {
+		get: (id) => {
+			const row = select.get(id, Date.now());
+			return row
+				? { data: JSON.parse(row.data), expiresAt: row.expires_at }
+				: null;
+		},
+		set: (id, { data, expiresAt }) => {
+			upsert.run(id, JSON.stringify(data), expiresAt);
+			// Pruning piggybacks on writes, at most once per interval
+			const now = Date.now();
+			if (now - lastPrune > PRUNE_INTERVAL) {
+				lastPrune = now;
+				prune.run(now);
+			}
+		},
+		destroy: (id) => {
+			remove.run(id);
+		},
+		touch: (id, expiresAt) => {
+			touch.run(expiresAt, id);
+		},
+	};
+}
+
+/**
+ * Creates the per-request session factory for `createServer` and `createTestServer`.
+ * With `cookie.signed` or `cookie.encrypted`, the session id cookie is protected
+ * with the server's `cookieSecrets`.
+ */
+export function createSessionManager(
+	{
+		store = createMemorySessionStore(),
+		cookieName = 'sid',
+		cookie: cookieOptions,
+		maxAge = 86_400,
+		rolling = false,
+	}: SessionOptions,
+	cookieSigner?: CookieSigner
+): (
+	cookies: Record<string, string>,
+	signedCookies: Record<string, string>
+) => SessionHandle {
+	const cookie = { ...DEFAULT_COOKIE_OPTIONS, ...cookieOptions };
+	const isProtected = cookie.signed || cookie.encrypted;
+	if (isProtected && !cookieSigner) {
+		throw new Error(
+			'Signed and encrypted session cookies require the cookieSecrets server option'
+		);
+	}
+
+	return (cookies, signedCookies) => {
+		const cookieId =
+			(isProtected ? signedCookies[cookieName] : cookies[cookieName]) ?? null;
+		let id: string | null = cookieId;
+		let data: Partial<SessionData> = {};
+		let expiresAt: number | null = null;
+		let loaded = false;
+		let dirty = false;
+		// Ids to delete from the store on commit, after regenerate or destroy
+		const discardedIds: string[] = [];
+
+		async function load() {
+			if (loaded) return;
+			loaded = true;
+			if (!id) return;
+
+			const record = await store.get(id);
+			if (record) {
+				data = record.data;
+				expiresAt = record.expiresAt;
+			} else {
+				// Unknown or expired: never adopt an id the client made up
+				id = null;
+			}
+		}
+
+		function ensureId() {
+			if (!id) {
+				id = generateSessionId();
+				expiresAt = null;
+			}
+		}
+
+		const session: Session = {
+			get id() {
+				return id;
+			},
+			get: async (key) => {
+				await load();
+				return data[key];
+			},
+			set: async (key, value) => {
+				await load();
+				ensureId();
+				data[key] = value;
+				dirty = true;
+			},
+			delete: async (key) => {
+				await load();
+				if (key in data) {
+					delete data[key];
+					dirty = true;
+				}
+			},
+			all: async () => {
+				await load();
+				return structuredClone(data);
+			},
+			regenerate: async () => {
+				await load();
+				if (id) discardedIds.push(id);
+				id = generateSessionId();
+				expiresAt = null;
+				dirty = true;
+			},
+			destroy: async () => {
+				await load();
+				if (id) discardedIds.push(id);
+				id = null;
+				data = {};
+				dirty = false;
+			},
+		};
+
+		async function setCookie(
+			response: Response,
+			value: string,
+			cookieMaxAge: number
+		) {
+			const options = { ...cookie, maxAge: cookieMaxAge };
+			let cookieValue = value;
+			if (cookieSigner && cookie.encrypted) {
+				cookieValue = await cookieSigner.encrypt(cookieName, value);
+			} else if (cookieSigner && cookie.signed) {
+				cookieValue = await cookieSigner.sign(cookieName, value);
+			}
+			response.headers.append(
+				'Set-Cookie',
+				serializeCookie(cookieName, cookieValue, options)
+			);
+		}
+
+		return {
+			session,
+			commit: async (response) => {
+				for (const discardedId of discardedIds) {
+					await store.destroy(discardedId);
+				}
+
+				if (rolling && cookieId) {
+					await load();
+				}
+
+				if (!id) {
+					// Destroyed, or the client sent a stale id: clear the cookie
+					if (cookieId) {
+						response.headers.append(
+							'Set-Cookie',
+							serializeExpiredCookie(cookieName, cookie)
+						);
+					}
+					return;
+				}
+
+				const now = Date.now();
+				const isNewId = id !== cookieId;
+				if (rolling || expiresAt === null) {
+					expiresAt = now + maxAge * 1000;
+				}
+
+				if (dirty || isNewId) {
+					await store.set(id, { data, expiresAt });
+				} else if (rolling) {
+					if (store.touch) {
+						await store.touch(id, expiresAt);
+					} else {
+						await store.set(id, { data, expiresAt });
+					}
+				}
+
+				if (isNewId || rolling) {
+					await setCookie(response, id, Math.round((expiresAt - now) / 1000));
+				}
+			},
+		};
+	};
+}
@@ -0,0 +1,111 @@
+import { describe, expect, test } from 'bun:test';
+import { createTestServer } from './bun-test-server';
+import { createSSEStream } from './sse';
+
+async function readChunk(reader: ReadableStreamDefaultReader<Uint8Array>) {
+	const { value } = await reader.read();
+	return new TextDecoder().decode(value);
+}
+
+describe('createSSEStream', () => {
+	test('opens the stream with event-stream headers and a first chunk', async () => {
+		const stream = createSSEStream(new Request('http://localhost/events'), {
+			heartbeat: 0,
+		});
+		const reader = stream.response.body!.getReader();
+
+		expect(stream.response.headers.get('Content-Type')).toBe(
+			'text/event-stream'
+		);
+		expect(stream.response.headers.get('X-Accel-Buffering')).toBe('no');
+		expect(await readChunk(reader)).toBe(': connected\n\n');
+		stream.close();
+	});
+
+	test('formats messages in the wire format', async () => {
+		const stream = createSSEStream(new Request('http://localhost/events'), {
+			heartbeat: 0,
+		});
+		const reader = stream.response.body!.getReader();
+		await readChunk(reader);
+
+		stream.send({ event: 'update', id: 7, data: { count: 1 } });
+		stream.send({ data: 'line one\nline two' });
+
+		expect(await readChunk(reader)).toBe(
+			'event: update\nid: 7\ndata: {"count":1}\n\n'
+		);
+		expect(await readChunk(reader)).toBe('data: line one\ndata: line two\n\n');
+		expect(() => stream.send({ event: 'a\nb', data: '' })).toThrow(
+			'SSE event cannot contain line breaks'
+		);
+		stream.close();
+	});
+
+	test('sends heartbeats as comments', async () => {
+		const stream = createSSEStream(new Request('http://localhost/events'), {
+			heartbeat: 10,
+			retry: 3000,
+		});
+		const reader = stream.response.body!.getReader();
+
+		expect(await readChunk(reader)).toBe('retry: 3000\n\n');
+		expect(await readChunk(reader)).toBe(': heartbeat\n\n');
+		stream.close();
+	});
+
+	test('exposes Last-Event-ID for resuming', () => {
+		const stream = createSSEStream(
+			new Request('http://localhost/events', {
+				headers: { 'Last-Event-ID': '41' },
+			}),
+			{ heartbeat: 0 }
+		);
+
+		expect(stream.lastEventId).toBe('41');
+		stream.close();
+	});
+
+	test('reports who closed the stream', async () => {
+		const client = new AbortController();
+		const byClient = createSSEStream(
+			new Request('http://localhost/events', { signal: client.signal }),
+			{ heartbeat: 0 }
+		);
+		const byServer = createSSEStream(new Request('http://localhost/events'), {
+			heartbeat: 0,
+		});
+		const reasons: string[] = [];
+		byClient.onClose((reason) => reasons.push(reason));
+		byServer.onClose((reason) => reasons.push(reason));
+
+		client.abort();
+		byServer.close();
+		byServer.close();
+
+		expect(reasons).toEqual(['client', 'server']);
+		expect(byClient.closed).toBe(true);
+		expect(byClient.send({ data: 'late' })).toBe(false);
+	});
+});
+
+describe('res.sse', () => {
+	test('streams from a route handler with the response headers set on res', async () => {
+		const app = createTestServer();
+		app.get('/events', (req, res) => {
+			res.setHeader('X-Feed', 'orders');
+			const stream = res.sse({ heartbeat: 0 });
+			stream.send({ event: 'order', data: { id: 1 } });
+			stream.close();
+			return stream.response;
+		});
+
+		const response = await app.call('/events');
+
+		expect(response.status).toBe(200);
+		expect(response.headers['x-feed']).toBe('orders');
+		expect(response.body).toBe(
+			': connected\n\nevent: order\ndata: {"id":1}\n\n'
+		);
+	});
+});
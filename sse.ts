@@ -0,0 +1,127 @@
+import type { SSEMessage, SSEOptions, SSEStream } from './server-types';
+
+const encoder = new TextEncoder();
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function assertSingleLine(field: string, value: string): string {
+	if (/[\r\n]/.test(value)) {
+		throw new Error(`SSE ${field} cannot contain line breaks`);
+	}
+	return value;
+}
+
+/** Serializes a message into the `text/event-stream` wire format. */
+function formatMessage({ event, id, data, retry }: SSEMessage): string {
+	let message = '';
+	if (event !== undefined) {
+		message += `event: ${assertSingleLine('event', event)}\n`;
+	}
+	if (id !== undefined) {
+		message += `id: ${assertSingleLine('id', String(id))}\n`;
+	}
+	if (retry !== undefined) {
+		message += `retry: ${retry}\n`;
+	}
+
+	// `undefined` has no JSON form, so it is sent as an empty `data:` line
+	const text = typeof data === 'string' ? data : (JSON.stringify(data) ?? '');
+	for (const line of text.split(/\r\n|\r|\n/)) {
+		message += `data: ${line}\n`;
+	}
+	return message + '\n';
+}
+
+// ─── Public helpers ───────────────────────────────────────────────────────────
+
+/**
+ * Opens a Server-Sent Events stream for `request`. The stream ends when the
+ * server calls `close()` or the client goes away, whichever happens first.
+ *
+ * @param headers - extra response headers, e.g. global headers and cookies
+ */
+export function createSSEStream(
+	request: Request,
+	{ heartbeat = 5_000, retry }: SSEOptions = {},
+	{
+		status = 200,
+		headers = new Headers(),
+	}: { status?: number; headers?: Headers } = {}
+): SSEStream {
+	let controller!: ReadableStreamDefaultController<Uint8Array>;
+	let interval: ReturnType<typeof setInterval> | undefined;
+	let closed = false;
+	const closeCallbacks: Array<(reason: 'server' | 'client') => void> = [];
+
+	function finish(reason: 'server' | 'client') {
+		if (closed) return;
+		closed = true;
+		clearInterval(interval);
+		request.signal.removeEventListener('abort', onAbort);
+		if (reason === 'server') {
+			try {
+				controller.close();
+			} catch {
+				// already closed
+			}
+		}
+		closeCallbacks.forEach((callback) => callback(reason));
+	}
+
+	function onAbort() {
+		finish('client');
+	}
+
+	function write(chunk: string): boolean {
+		if (closed) return false;
+		try {
+			controller.enqueue(encoder.encode(chunk));
+			return true;
+		} catch {
+			finish('client');
+			return false;
+		}
+	}
+
+	const body = new ReadableStream<Uint8Array>({
+		start(streamController) {
+			controller = streamController;
+			// Bun only sends the headers with the first chunk, so write one right away
+			streamController.enqueue(
+				encoder.encode(
+					retry !== undefined ? `retry: ${retry}\n\n` : ': connected\n\n'
+				)
+			);
+			// Keep-alive heartbeat (SSE comment, ignored by clients)
+			if (heartbeat > 0) {
+				interval = setInterval(() => write(': heartbeat\n\n'), heartbeat);
+			}
+		},
+		cancel() {
+			finish('client');
+		},
+	});
+
+	request.signal.addEventListener('abort', onAbort);
+
+	headers.set('Content-Type', 'text/event-stream');
+	headers.set('Cache-Control', 'no-cache');
+	headers.set('Connection', 'keep-alive');
+	// Stops nginx from buffering the stream
+	headers.set('X-Accel-Buffering', 'no');
+
+	return {
+		response: new Response(body, { status, headers }),
+		lastEventId: request.headers.get('Last-Event-ID'),
+		get closed() {
+			return closed;
+		},
+		send: (message: SSEMessage) => write(formatMessage(message)),
+		comment: (text: string) =>
+			write(`: ${assertSingleLine('comment', text)}\n\n`),
+		close: () => finish('server'),
+		onClose: (callback) => {
+			closeCallbacks.push(callback);
+		},
+	};
+}
@@ -0,0 +1,192 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createServer } from './index';
+import {
+	DEFAULT_BLOCKED_PATTERNS,
+	getContentType,
+	isFileBlocked,
+} from './static-files';
+
+describe('getContentType', () => {
+	test('knows modern web types and falls back to octet-stream', () => {
+		expect(getContentType('/app.mjs')).toBe(
+			'application/javascript; charset=utf-8'
+		);
+		expect(getContentType('/module.WASM')).toBe('application/wasm');
+		expect(getContentType('/photo.avif')).toBe('image/avif');
+		expect(getContentType('/site.webmanifest')).toBe(
+			'application/manifest+json; charset=utf-8'
+		);
+		expect(getContentType('/data.unknown')).toBe('application/octet-stream');
+	});
+
+	test('lets custom types override defaults and known types', () => {
+		const mimeTypes = { '.js': 'text/javascript', glb: 'model/gltf-binary' };
+
+		expect(getContentType('/app.js', mimeTypes)).toBe('text/javascript');
+		expect(getContentType('/scene.glb', mimeTypes)).toBe('model/gltf-binary');
+		expect(getContentType('/blob.bin', {}, 'image/png')).toBe('image/png');
+	});
+});
+
+describe('isFileBlocked', () => {
+	test('matches patterns anywhere in the path, ignoring case', () => {
+		expect(isFileBlocked('/srv/app/.ENV', DEFAULT_BLOCKED_PATTERNS)).toBe(true);
+		expect(
+			isFileBlocked('/srv/app/.git/config', DEFAULT_BLOCKED_PATTERNS)
+		).toBe(true);
+		expect(isFileBlocked('/srv/app/index.html', DEFAULT_BLOCKED_PATTERNS)).toBe(
+			false
+		);
+	});
+});
+
+describe('public directories', () => {
+	let dir: string;
+	let server: ReturnType<ReturnType<typeof createServer>['start']>;
+
+	beforeAll(async () => {
+		dir = await mkdtemp(path.join(tmpdir(), 'bun-server-static-'));
+		await Bun.write(path.join(dir, 'app.1a2b3c.js'), 'console.log("app")');
+		await Bun.write(path.join(dir, 'app.1a2b3c.js.br'), 'brotli bytes');
+		await Bun.write(path.join(dir, 'app.1a2b3c.js.gz'), 'gzip bytes');
+		await Bun.write(path.join(dir, 'about.html'), '<h1>About</h1>');
+		await Bun.write(path.join(dir, 'model.glb'), 'glTF');
+		await Bun.write(path.join(dir, '.env'), 'SECRET=1');
+
+		const app = createServer({ port: 0 });
+		app.addPublicDirectory(dir, {
+			precompressed: true,
+			extensions: ['html'],
+			mimeTypes: { '.glb': 'model/gltf-binary' },
+			immutable: /\.[0-9a-f]{6}\.js$/,
+			cacheControl: 'public, max-age=60',
+		});
+		server = app.start();
+	});
+
+	afterAll(async () => {
+		server.stop(true);
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	function get(pathname: string, headers: Record<string, string> = {}) {
+		return fetch(new URL(pathname, server.url), {
+			headers,
+			decompress: false,
+		});
+	}
+
+	test('serve the precompressed sibling the client accepts', async () => {
+		const br = await get('/app.1a2b3c.js', { 'Accept-Encoding': 'gzip, br' });
+		const gzip = await get('/app.1a2b3c.js', { 'Accept-Encoding': 'gzip' });
+		const plain = await get('/app.1a2b3c.js', {
+			'Accept-Encoding': 'identity',
+		});
+
+		expect(br.headers.get('Content-Encoding')).toBe('br');
+		expect(await br.text()).toBe('brotli bytes');
+		expect(br.headers.get('Content-Type')).toBe(
+			'application/javascript; charset=utf-8'
+		);
+		expect(br.headers.get('Vary')).toContain('Accept-Encoding');
+		expect(gzip.headers.get('Content-Encoding')).toBe('gzip');
+		expect(plain.headers.get('Content-Encoding')).toBeNull();
+		expect(await plain.text()).toBe('console.log("app")');
+	});
+
+	test('mark fingerprinted files immutable and others with cacheControl', async () => {
+		const bundle = await get('/app.1a2b3c.js');
+		const page = await get('/about.html');
+
+		expect(bundle.headers.get('Cache-Control')).toBe(
+			'public, max-age=31536000, immutable'
+		);
+		expect(page.headers.get('Cache-Control')).toBe('public, max-age=60');
+	});
+
+	test('fall back to extensions and use custom MIME types', async () => {
+		const about = await get('/about');
+		const model = await get('/model.glb');
+
+		expect(about.status).toBe(200);
+		expect(await about.text()).toBe('<h1>About</h1>');
+		expect(model.headers.get('Content-Type')).toBe('model/gltf-binary');
+	});
+
+	test('refuse blocked files', async () => {
+		expect((await get('/.env')).status).toBe(404);
+	});
+});
+
+describe('mounted public directories', () => {
+	let root: string;
+	let server: ReturnType<ReturnType<typeof createServer>['start']>;
+
+	beforeAll(async () => {
+		root = await mkdtemp(path.join(tmpdir(), 'bun-server-mounts-'));
+		await Bun.write(path.join(root, 'admin/index.html'), 'admin shell');
+		await Bun.write(path.join(root, 'admin/logo.svg'), '<svg/>');
+		await Bun.write(path.join(root, 'app/index.html'), 'app shell');
+		await Bun.write(path.join(root, 'site/robots.txt'), 'User-agent: *');
+
+		const app = createServer({ port: 0 });
+		app.get('/admin/health', (req, res) => res.send({ ok: true }));
+		app.addPublicDirectory(path.join(root, 'admin'), {
+			mountPath: '/admin',
+			spaMode: true,
+			fallbackMode: 'catchall',
+		});
+		app.addPublicDirectory(path.join(root, 'app'), {
+			mountPath: '/app/',
+			spaMode: true,
+		});
+		app.addPublicDirectory(path.join(root, 'site'));
+		server = app.start();
+	});
+
+	afterAll(async () => {
+		server.stop(true);
+		await rm(root, { recursive: true, force: true });
+	});
+
+	async function get(pathname: string) {
+		const response = await fetch(new URL(pathname, server.url));
+		return { status: response.status, body: await response.text() };
+	}
+
+	test('resolve files relative to the mount path', async () => {
+		expect(await get('/admin/logo.svg')).toEqual({
+			status: 200,
+			body: '<svg/>',
+		});
+		expect(await get('/admin')).toEqual({ status: 200, body: 'admin shell' });
+		expect(await get('/robots.txt')).toEqual({
+			status: 200,
+			body: 'User-agent: *',
+		});
+		expect((await get('/logo.svg')).status).toBe(404);
+		expect((await get('/administrator/logo.svg')).status).toBe(404);
+	});
+
+	test('scope SPA fallback to each mount', async () => {
+		expect(await get('/admin/users/7')).toEqual({
+			status: 200,
+			body: 'admin shell',
+		});
+		expect(await get('/app/orders/3')).toEqual({
+			status: 200,
+			body: 'app shell',
+		});
+		expect((await get('/other/page')).status).toBe(404);
+	});
+
+	test('let routes win over a catchall mount', async () => {
+		expect(await get('/admin/health')).toEqual({
+			status: 200,
+			body: '{"ok":true}',
+		});
+	});
+});
@@ -0,0 +1,87 @@
+import path from 'path';
+
+// Security: Default patterns to block from being served
+export const DEFAULT_BLOCKED_PATTERNS = [
+	'.env',
+	'.env.local',
+	'.env.production',
+	'.env.development',
+	'.git/',
+	'.gitignore',
+	'.npmrc',
+	'.DS_Store',
+	'package-lock.json',
+	'yarn.lock',
+	'pnpm-lock.yaml',
+	'bun.lockb',
+];
+
+const DEFAULT_CONTENT_TYPES: Record<string, string> = {
+	'.html': 'text/html; charset=utf-8',
+	'.css': 'text/css; charset=utf-8',
+	'.js': 'application/javascript; charset=utf-8',
+	'.mjs': 'application/javascript; charset=utf-8',
+	'.json': 'application/json; charset=utf-8',
+	'.map': 'application/json; charset=utf-8',
+	'.webmanifest': 'application/manifest+json; charset=utf-8',
+	'.wasm': 'application/wasm',
+	'.png': 'image/png',
+	'.jpg': 'image/jpeg',
+	'.jpeg': 'image/jpeg',
+	'.gif': 'image/gif',
+	'.svg': 'image/svg+xml',
+	'.ico': 'image/x-icon',
+	'.webp': 'image/webp',
+	'.avif': 'image/avif',
+	'.woff': 'font/woff',
+	'.woff2': 'font/woff2',
+	'.ttf': 'font/ttf',
+	'.eot': 'application/vnd.ms-fontobject',
+	'.pdf': 'application/pdf',
+	'.txt': 'text/plain; charset=utf-8',
+	'.csv': 'text/csv; charset=utf-8',
+	'.xml': 'application/xml; charset=utf-8',
+	'.mp4': 'video/mp4',
+	'.webm': 'video/webm',
+	'.mp3': 'audio/mpeg',
+	'.wav': 'audio/wav',
+	'.zip': 'application/zip',
+};
+
+// ─── Public helpers ───────────────────────────────────────────────────────────
+
+/**
+ * Checks if a file path matches any blocked patterns
+ */
+export function isFileBlocked(
+	filePath: string,
+	blockedPatterns: string[]
+): boolean {
+	const normalizedPath = filePath.toLowerCase();
+	return blockedPatterns.some((pattern) => {
+		const normalizedPattern = pattern.toLowerCase();
+		// Check if pattern is in the path
+		return normalizedPath.includes(normalizedPattern);
+	});
+}
+
+/**
+ * Gets the appropriate Content-Type header based on file extension
+ * @param mimeTypes - per-directory additions and overrides, keyed by extension
+ * @param knownType - a type recorded ahead of time, e.g. in an asset manifest
+ */
+export function getContentType(
+	filePath: string,
+	mimeTypes: Record<string, string> = {},
+	knownType?: string
+): string {
+	const ext = path.extname(filePath).toLowerCase();
+	const custom = mimeTypes[ext] ?? mimeTypes[ext.slice(1)];
+
+	return (
+		custom ||
+		knownType ||
+		DEFAULT_CONTENT_TYPES[ext] ||
+		'application/octet-stream'
+	);
+}
@@ -0,0 +1,204 @@
+import { describe, expect, test } from 'bun:test';
+import { createServer } from './index';
+import type { WafRule } from './server-types';
+import {
+	WAF_BODY_RULES,
+	WAF_COMMON_RULES,
+	createWafBans,
+	createWafCounters,
+	inspectRequest,
+	matchesWafRule,
+} from './waf';
+
+function inspect(url: string, init?: RequestInit) {
+	const request = new Request(url, init);
+	return inspectRequest(request, new URL(url), [
+		...WAF_COMMON_RULES,
+		...WAF_BODY_RULES,
+	]);
+}
+
+function postForm(body: string) {
+	return inspect('http://localhost/comments', {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+		body,
+	});
+}
+
+describe('matchesWafRule', () => {
+	test('matches string patterns as case-insensitive prefixes', () => {
+		expect(matchesWafRule('/WP-Admin/index.php', WAF_COMMON_RULES)).toBe(true);
+		expect(matchesWafRule('/.env', WAF_COMMON_RULES)).toBe(true);
+		expect(matchesWafRule('/api/users', WAF_COMMON_RULES)).toBe(false);
+	});
+});
+
+describe('inspectRequest', () => {
+	test('blocks scanner user agents and tracing methods', async () => {
+		const scanner = await inspect('http://localhost/', {
+			headers: { 'User-Agent': 'sqlmap/1.7' },
+		});
+		const trace = await inspect('http://localhost/', { method: 'TRACE' });
+
+		expect(scanner.action).toEqual({ type: 'block', status: 404 });
+		expect(trace.action).toEqual({ type: 'block', status: 405 });
+	});
+
+	test('finds SQL injection in query strings', async () => {
+		for (const query of [
+			"id=1' OR '1'='1",
+			'id=1 UNION ALL SELECT password FROM users',
+			"name=x' AND SLEEP(5)--",
+			'id=1;DROP TABLE users',
+		]) {
+			const verdict = await inspect(`http://localhost/items?${query}`);
+			expect(verdict.matches.map((rule) => rule.description)).toEqual([
+				'SQL injection in query string',
+			]);
+		}
+	});
+
+	test('lets ordinary text through', async () => {
+		for (const body of [
+			'comment=I need to sleep(8) hours',
+			"comment=It's 2 or 3 = 5 minus something",
+			"comment=Let's benchmark(it) later",
+			"comment=it's or 1=10",
+		]) {
+			expect((await postForm(body)).action).toBeNull();
+		}
+	});
+
+	test('checks bodies only with the body rules', async () => {
+		const init = {
+			method: 'POST',
+			body: "name=x' or 1=1 --",
+			headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+		};
+		const url = 'http://localhost/login';
+		const request = new Request(url, init);
+		let clones = 0;
+		const clone = request.clone.bind(request);
+		request.clone = () => {
+			clones++;
+			return clone();
+		};
+
+		const common = await inspectRequest(
+			request,
+			new URL(url),
+			WAF_COMMON_RULES
+		);
+		const withBody = await inspect(url, init);
+
+		expect(common.action).toBeNull();
+		expect(clones).toBe(0);
+		expect(withBody.matches.map((rule) => rule.description)).toEqual([
+			'SQL injection in body',
+		]);
+	});
+
+	test('leaves the body readable for the route', async () => {
+		const request = new Request('http://localhost/login', {
+			method: 'POST',
+			body: 'user=alice',
+		});
+
+		await inspectRequest(request, new URL(request.url), WAF_BODY_RULES);
+
+		expect(await request.text()).toBe('user=alice');
+	});
+});
+
+describe('createWafBans', () => {
+	test('bans a client once its score reaches the threshold', async () => {
+		const bans = createWafBans({ threshold: 2 });
+		const [rule] = WAF_COMMON_RULES;
+
+		expect(await bans.addScore('10.0.0.1', [rule!])).toBe(false);
+		expect(await bans.isBanned('10.0.0.1')).toBe(false);
+		expect(await bans.addScore('10.0.0.1', [rule!])).toBe(true);
+		expect(await bans.isBanned('10.0.0.1')).toBe(true);
+		expect(await bans.isBanned('10.0.0.2')).toBe(false);
+	});
+
+	test('does not score rules that only log', async () => {
+		const bans = createWafBans({ threshold: 1 });
+
+		expect(
+			await bans.addScore('10.0.0.1', [
+				{ pattern: '/old', description: 'old path', action: 'log' },
+			])
+		).toBe(false);
+	});
+});
+
+describe('createWafCounters', () => {
+	test('counts inspected and blocked requests and hits per rule', () => {
+		const rules: WafRule[] = [
+			{ pattern: '/.env', description: 'env file' },
+			{ pattern: '/old', description: 'old path', action: 'log' },
+		];
+		const counters = createWafCounters(rules);
+
+		counters.record({ matches: [rules[0]!], action: null }, true);
+		counters.record({ matches: [rules[1]!], action: null }, false);
+		counters.record({ matches: [], action: null }, false);
+		counters.recordBanned();
+
+		expect(counters.getStats()).toEqual({
+			inspected: 3,
+			blocked: 1,
+			banned: 1,
+			rules: [
+				{ rule: rules[0]!, hits: 1 },
+				{ rule: rules[1]!, hits: 1 },
+			],
+		});
+	});
+});
+
+describe('WAF reporting', () => {
+	async function probe(wafDryRun: boolean) {
+		const blocked: string[] = [];
+		const app = createServer({
+			port: 0,
+			enableWaf: true,
+			wafDryRun,
+			accessLog: { info() {}, warn() {}, error() {} },
+			onWafBlock: (request, rule) => {
+				blocked.push(`${new URL(request.url).pathname} ${rule.description}`);
+			},
+		});
+		app.get('/wp-admin/setup.php', (req, res) => res.send('reached'));
+		const server = app.start();
+		try {
+			const response = await fetch(new URL('/wp-admin/setup.php', server.url));
+			await response.text();
+			return { status: response.status, blocked, stats: app.getWafStats() };
+		} finally {
+			server.stop(true);
+		}
+	}
+
+	test('blocks, calls onWafBlock and counts the rule hit', async () => {
+		const { status, blocked, stats } = await probe(false);
+		const hits = stats.rules.filter(({ hits }) => hits > 0);
+
+		expect(status).toBe(404);
+		expect(blocked).toHaveLength(1);
+		expect(blocked[0]).toStartWith('/wp-admin/setup.php ');
+		expect(stats).toMatchObject({ inspected: 1, blocked: 1, banned: 0 });
+		expect(hits).toHaveLength(1);
+	});
+
+	test('lets matches through in dry-run mode, still counting them', async () => {
+		const { status, blocked, stats } = await probe(true);
+
+		expect(status).toBe(200);
+		expect(blocked).toEqual([]);
+		expect(stats).toMatchObject({ inspected: 1, blocked: 0 });
+		expect(stats.rules.some(({ hits }) => hits > 0)).toBe(true);
+	});
+});
@@ -1,6 +1,45 @@
-import type { WafRule } from './server-types';
+import type {
+	WafAction,
+	WafBanOptions,
+	WafRule,
+	WafStats,
+	WafStore,
+} from './server-types';
 
-export type { WafRule };
+export type { WafAction, WafRule };
+
+/** The action of a matched rule, with its defaults filled in. */
+export type ResolvedWafAction =
+	| { type: 'block'; status: number }
+	| { type: 'log' }
+	| { type: 'tarpit'; delay: number; status: number };
+
+/** Rules a request matched, and the first blocking or tarpit action among them. */
+export type WafVerdict = {
+	matches: WafRule[];
+	action: Exclude<ResolvedWafAction, { type: 'log' }> | null;
+};
+
+// Bodies are only sampled, so a huge upload can't stall inspection
+const BODY_SAMPLE_SIZE = 8 * 1024;
+
+// Short enough to finish before Bun's default 10 second idle timeout
+const DEFAULT_TARPIT_DELAY = 5_000;
+
+// How often the memory store sweeps out expired scores and bans
+const PRUNE_INTERVAL = 60_000;
+
+// Scanners and attack tools that announce themselves in User-Agent
+const SCANNER_USER_AGENTS =
+	/\b(sqlmap|nikto|nmap|masscan|zgrab|nuclei|wpscan|dirbuster|gobuster|feroxbuster|ffuf|acunetix|netsparker|w3af|havij|fimap|nessus|openvas|whatweb|arachni|skipfish|jaeles)\b/i;
+
+// Log4Shell lookups, including nested obfuscations such as ${${lower:j}ndi:
+const JNDI_LOOKUP = /\$\{[^}]{0,30}?(jndi|\$\{(lower|upper|env|sys|::-))/i;
+
+// Tautologies only count when both sides are the same number (`' or 1=1`), and
+// sleep() only after a quote, `;` or SQL keyword, so prose like "sleep(8) hours" passes
+const SQL_INJECTION =
+	/(\bunion\b[\s(]+(all\s+)?select\b|'\s*or\s+'?(?<n>\d+)'?\s*=\s*'?\k<n>\b|(['";]|\b(and|or|select)\b)\s*\(?\s*(pg_)?sleep\s*\(\s*\d+(\.\d+)?\s*\)|\bbenchmark\s*\(\s*\d+\s*,|\bwaitfor\s+delay\b|\binformation_schema\b|;\s*(drop|truncate)\s+table\b)/i;
 
 /**
  * Common WAF rules targeting script kiddie scanners, WordPress probes,
@@ -83,8 +122,126 @@ export const WAF_COMMON_RULES: readonly WafRule[] = [
 
 	// Backup and dump file extensions
 	{ pattern: /\.(bak|backup|old|orig|sql|dump)(\?|\/|$)/i, description: 'backup/dump file probe' },
+
+	// Methods only used to probe for cross-site tracing and debug endpoints
+	{
+		methods: ['TRACE', 'TRACK', 'DEBUG'],
+		description: 'tracing method probe',
+		action: { type: 'block', status: 405 },
+	},
+
+	// Scanner user agents
+	{
+		headers: { 'user-agent': SCANNER_USER_AGENTS },
+		description: 'scanner user agent',
+	},
+	{
+		headers: { 'user-agent': /\(\s*\)\s*\{\s*:\s*;\s*\}\s*;/ },
+		description: 'Shellshock user agent',
+	},
+
+	// Log4Shell lookups in the places they are usually planted
+	{
+		headers: { 'user-agent': JNDI_LOOKUP },
+		description: 'Log4Shell lookup in user agent',
+	},
+	{
+		headers: { referer: JNDI_LOOKUP },
+		description: 'Log4Shell lookup in referer',
+	},
+	{
+		headers: { 'x-forwarded-for': JNDI_LOOKUP },
+		description: 'Log4Shell lookup in X-Forwarded-For',
+	},
+	{ query: JNDI_LOOKUP, description: 'Log4Shell lookup in query string' },
+
+	// Injection in query strings
+	{ query: SQL_INJECTION, description: 'SQL injection in query string' },
+	{
+		query: /<script\b|javascript:|\bon(error|load)\s*=/i,
+		description: 'XSS in query string',
+	},
+	{
+		query: /(\.\.[\/\\]){2,}|\/etc\/passwd|\bc:\\windows\b/i,
+		description: 'path traversal in query string',
+	},
+];
+
+/**
+ * Rules that inspect request bodies for Log4Shell lookups and SQL injection. They
+ * are left out of `WAF_COMMON_RULES`, as sampling a body copies it and free text
+ * trips them more easily than URLs do. Add them where that's worth it:
+ * @example
+ * wafOverrides: [...WAF_COMMON_RULES, ...WAF_BODY_RULES]
+ */
+export const WAF_BODY_RULES: readonly WafRule[] = [
+	{ body: JNDI_LOOKUP, description: 'Log4Shell lookup in body' },
+	{ body: SQL_INJECTION, description: 'SQL injection in body' },
 ];
 
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Case-insensitive substring match for strings, a test for RegExps. */
+function matchesText(value: string, matcher: string | RegExp): boolean {
+	if (matcher instanceof RegExp) {
+		return matcher.test(value);
+	}
+	return value.toLowerCase().includes(matcher.toLowerCase());
+}
+
+/** Decodes form-style URL encoding, keeping the text as is if it isn't valid. */
+function urlDecode(text: string): string {
+	try {
+		return decodeURIComponent(text.replace(/\+/g, ' '));
+	} catch {
+		return text;
+	}
+}
+
+/** Reads up to BODY_SAMPLE_SIZE bytes from a copy of the body, leaving it unread for the route. */
+async function readBodySample(request: Request): Promise<string> {
+	if (!request.body || request.bodyUsed) {
+		return '';
+	}
+	const reader = request.clone().body!.getReader();
+	const chunks: Uint8Array[] = [];
+	let size = 0;
+	try {
+		while (size < BODY_SAMPLE_SIZE) {
+			const { done, value } = await reader.read();
+			if (done) break;
+			chunks.push(value);
+			size += value.byteLength;
+		}
+	} finally {
+		reader.cancel().catch(() => {});
+	}
+	return urlDecode(
+		Buffer.concat(chunks).subarray(0, BODY_SAMPLE_SIZE).toString('utf8')
+	);
+}
+
+function resolveAction(action: WafAction = 'block'): ResolvedWafAction {
+	const options = typeof action === 'string' ? { type: action } : action;
+	switch (options.type) {
+		case 'log':
+			return { type: 'log' };
+		case 'tarpit':
+			return {
+				type: 'tarpit',
+				delay: ('delay' in options && options.delay) || DEFAULT_TARPIT_DELAY,
+				status: ('status' in options && options.status) || 404,
+			};
+		default:
+			return {
+				type: 'block',
+				status: ('status' in options && options.status) || 404,
+			};
+	}
+}
+
+// ─── Public helpers ───────────────────────────────────────────────────────────
+
 /**
  * Returns true if the given pathname matches any WAF rule.
  * String patterns use case-insensitive prefix matching.
@@ -93,9 +250,186 @@ export const WAF_COMMON_RULES: readonly WafRule[] = [
 export function matchesWafRule(pathname: string, rules: readonly WafRule[]): boolean {
 	const lower = pathname.toLowerCase();
 	return rules.some((rule) => {
+		if (rule.pattern === undefined) {
+			return false;
+		}
 		if (rule.pattern instanceof RegExp) {
 			return rule.pattern.test(lower);
 		}
 		return lower.startsWith(rule.pattern.toLowerCase());
 	});
 }
+
+/**
+ * Checks a request against every rule. Cheap matchers run first, and the body is
+ * only sampled once a rule that has a body matcher got that far. Matching stops
+ * at the first rule that blocks or tarpits; `log` rules are collected on the way.
+ */
+export async function inspectRequest(
+	request: Request,
+	url: URL,
+	rules: readonly WafRule[]
+): Promise<WafVerdict> {
+	const method = request.method.toUpperCase();
+	const query = urlDecode(url.search.slice(1));
+	let bodySample: Promise<string> | undefined;
+
+	const matches: WafRule[] = [];
+	for (const rule of rules) {
+		const { pattern, methods, headers, query: queryMatcher, body } = rule;
+		// A rule without matchers would match everything
+		if (!pattern && !methods && !headers && !queryMatcher && !body) continue;
+
+		if (pattern && !matchesWafRule(url.pathname, [rule])) continue;
+		if (methods && !methods.some((m) => m.toUpperCase() === method)) continue;
+		if (
+			headers &&
+			!Object.entries(headers).every(([name, matcher]) =>
+				matchesText(request.headers.get(name) ?? '', matcher)
+			)
+		) {
+			continue;
+		}
+		if (queryMatcher && !matchesText(query, queryMatcher)) continue;
+		if (
+			body &&
+			!matchesText(await (bodySample ??= readBodySample(request)), body)
+		)
+			continue;
+
+		matches.push(rule);
+		const action = resolveAction(rule.action);
+		if (action.type !== 'log') {
+			return { matches, action };
+		}
+	}
+	return { matches, action: null };
+}
+
+/** Answers a blocked request, after holding it for a while when tarpitting. */
+export async function createWafResponse(
+	action: NonNullable<WafVerdict['action']>
+): Promise<Response> {
+	if (action.type === 'tarpit') {
+		await Bun.sleep(action.delay);
+	}
+	return new Response(null, { status: action.status });
+}
+
+/** Counts inspected, blocked and banned requests, and how often each rule matched. */
+export function createWafCounters(rules: readonly WafRule[]): {
+	record: (verdict: WafVerdict, blocked: boolean) => void;
+	recordBanned: () => void;
+	getStats: () => WafStats;
+} {
+	const hits = new Map<WafRule, number>();
+	let inspected = 0;
+	let blocked = 0;
+	let banned = 0;
+
+	return {
+		record: (verdict, wasBlocked) => {
+			inspected++;
+			if (wasBlocked) blocked++;
+			for (const rule of verdict.matches) {
+				hits.set(rule, (hits.get(rule) ?? 0) + 1);
+			}
+		},
+		recordBanned: () => {
+			banned++;
+		},
+		getStats: () => ({
+			inspected,
+			blocked,
+			banned,
+			rules: rules.map((rule) => ({ rule, hits: hits.get(rule) ?? 0 })),
+		}),
+	};
+}
+
+/**
+ * Keeps WAF scores and bans in process memory. They are lost on restart and
+ * not shared between processes.
+ */
+export function createMemoryWafStore(): WafStore {
+	const scores = new Map<string, { score: number; expiresAt: number }>();
+	const bans = new Map<string, number>();
+
+	setInterval(() => {
+		const now = Date.now();
+		for (const [ip, { expiresAt }] of scores) {
+			if (expiresAt <= now) scores.delete(ip);
+		}
+		for (const [ip, until] of bans) {
+			if (until <= now) bans.delete(ip);
+		}
+	}, PRUNE_INTERVAL).unref();
+
+	return {
+		addScore: (ip, points, window) => {
+			const now = Date.now();
+			let entry = scores.get(ip);
+			if (!entry || entry.expiresAt <= now) {
+				entry = { score: 0, expiresAt: now + window };
+				scores.set(ip, entry);
+			}
+			entry.score += points;
+			return entry.score;
+		},
+		ban: (ip, until) => {
+			bans.set(ip, until);
+			scores.delete(ip);
+		},
+		getBan: (ip) => {
+			const until = bans.get(ip);
+			if (until === undefined || until <= Date.now()) {
+				bans.delete(ip);
+				return null;
+			}
+			return until;
+		},
+	};
+}
+
+/**
+ * Adds up anomaly scores per client and bans clients whose score reaches the
+ * threshold within the window.
+ */
+export function createWafBans({
+	threshold = 10,
+	window = 300,
+	duration = 600,
+	status = 403,
+	store = createMemoryWafStore(),
+}: WafBanOptions): {
+	status: number;
+	isBanned: (ip: string) => Promise<boolean>;
+	/** Scores the matched rules, returning true when the client is now banned. */
+	addScore: (ip: string, matches: WafRule[]) => Promise<boolean>;
+} {
+	return {
+		status,
+		isBanned: async (ip) => {
+			const until = await store.getBan(ip);
+			return until !== null && until > Date.now();
+		},
+		addScore: async (ip, matches) => {
+			// Rules that only log are there to observe, so they don't count unless asked to
+			const points = matches.reduce(
+				(total, rule) =>
+					total +
+					(rule.score ?? (resolveAction(rule.action).type === 'log' ? 0 : 1)),
+				0
+			);
+			if (points <= 0) {
+				return false;
+			}
+			const score = await store.addScore(ip, points, window * 1000);
+			if (score < threshold) {
+				return false;
+			}
+			await store.ban(ip, Date.now() + duration * 1000);
+			return true;
+		},
+	};
+}